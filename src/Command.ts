@@ -2,9 +2,10 @@ import { sleep, trimStack } from './lib/util';
 import Element from './Element';
 import Task from '@dojo/core/async/Task';
 import { Thenable } from '@dojo/shim/interfaces';
-import Session from './Session';
+import Session, { DragAndDropOptions, NewWindowType, PinchOptions, RotateOptions, SwipeOptions } from './Session';
 import Locator from './lib/Locator';
-import { LogEntry, Geolocation, WebDriverCookie } from './interfaces';
+import Actions, { ActionSequence } from './lib/Actions';
+import { LogEntry, Geolocation, WebDriverCookie, WindowRect } from './interfaces';
 
 /**
  * The Command class is a chainable, subclassable object type that can be used to execute commands serially against a
@@ -907,6 +908,52 @@ export default class Command<T> extends Locator<Command<Element>, Command<Elemen
 		return this._callSessionMethod<void>('maximizeWindow', windowHandle);
 	}
 
+	/**
+	 * Minimises the currently focused window according to the platform’s window system behaviour.
+	 */
+	minimizeWindow() {
+		return this._callSessionMethod<void>('minimizeWindow');
+	}
+
+	/**
+	 * Makes the currently focused window fill the screen. See [[Session.fullscreenWindow]] for details.
+	 */
+	fullscreenWindow() {
+		return this._callSessionMethod<void>('fullscreenWindow');
+	}
+
+	/**
+	 * Gets the position and dimensions of the currently focused window.
+	 *
+	 * @returns
+	 * An object describing the position of the window relative to the top-left corner of the primary monitor, and
+	 * its width and height, in CSS pixels.
+	 */
+	getWindowRect() {
+		return this._callSessionMethod<WindowRect>('getWindowRect');
+	}
+
+	/**
+	 * Moves and resizes the currently focused window in a single operation.
+	 *
+	 * @param rect
+	 * The new position of the window relative to the top-left corner of the primary monitor, and its new width and
+	 * height, in CSS pixels. Omitted properties are left unchanged.
+	 */
+	setWindowRect(rect: Partial<WindowRect>) {
+		return this._callSessionMethod<void>('setWindowRect', rect);
+	}
+
+	/**
+	 * Opens a new, blank browser tab or window without focusing it. See [[Session.openNewWindow]] for details.
+	 *
+	 * @param type The kind of window to open.
+	 * @returns The handle of the new window.
+	 */
+	openNewWindow(type?: NewWindowType) {
+		return this._callSessionMethod<string>('openNewWindow', type);
+	}
+
 	/**
 	 * Gets all cookies set on the current page.
 	 */
@@ -1021,6 +1068,30 @@ export default class Command<T> extends Locator<Command<Element>, Command<Elemen
 		return this._callSessionMethod<void>('dismissAlert');
 	}
 
+	/**
+	 * Performs a sequence of low-level input actions using the W3C WebDriver Actions API.
+	 *
+	 * ```js
+	 * command
+	 *     .findById('input')
+	 *     .click()
+	 *     .end()
+	 *     .performActions(new Actions().keyDown(keys.SHIFT).type('abc').keyUp(keys.SHIFT));
+	 * ```
+	 *
+	 * @param actions The actions to perform, as an [[Actions]] builder or as raw W3C action sequences.
+	 */
+	performActions(actions: Actions | ActionSequence[]) {
+		return this._callSessionMethod<void>('performActions', actions);
+	}
+
+	/**
+	 * Releases all keys and pointer buttons that are currently pressed in the remote environment.
+	 */
+	releaseActions() {
+		return this._callSessionMethod<void>('releaseActions');
+	}
+
 	/**
 	 * Moves the remote environment’s mouse cursor to the specified element or relative position. If the element is
 	 * outside of the viewport, the remote driver will attempt to scroll it into view automatically.
@@ -1082,6 +1153,22 @@ export default class Command<T> extends Locator<Command<Element>, Command<Elemen
 		return this._callSessionMethod<void>('doubleClick');
 	}
 
+	/**
+	 * Drags an element and drops it onto another element, or at an offset from its original position. HTML5 drag and
+	 * drop is simulated for `draggable` elements. See [[Session.dragAndDrop]] for details.
+	 *
+	 * @param source The element to drag.
+	 *
+	 * @param target
+	 * The element to drop the source element onto, or the offset, in CSS pixels, from the centre of the source
+	 * element to the point the source element is dropped at.
+	 *
+	 * @param options Options that control how the element is dragged.
+	 */
+	dragAndDrop(source: Element, target: Element | { x: number, y: number }, options?: DragAndDropOptions) {
+		return this._callSessionMethod<void>('dragAndDrop', source, target, options);
+	}
+
 	/**
 	 * Taps an element on a touch screen device. If the element is outside of the viewport, the remote driver will
 	 * attempt to scroll it into view automatically.
@@ -1179,6 +1266,55 @@ export default class Command<T> extends Locator<Command<Element>, Command<Elemen
 		return this._callSessionMethod<void>('flickFinger', ...args);
 	}
 
+	/**
+	 * Performs a two-finger pinch gesture, moving two fingers towards each other. See [[Session.pinch]] for how
+	 * gestures are performed.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size and speed of the gesture.
+	 */
+	pinch(element?: Element, options?: PinchOptions): Command<void>;
+	pinch(options?: PinchOptions): Command<void>;
+	pinch(...args: any[]) {
+		return this._callSessionMethod<void>('pinch', ...args);
+	}
+
+	/**
+	 * Performs a two-finger spread (zoom) gesture, moving two fingers away from each other.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size and speed of the gesture.
+	 */
+	spread(element?: Element, options?: PinchOptions): Command<void>;
+	spread(options?: PinchOptions): Command<void>;
+	spread(...args: any[]) {
+		return this._callSessionMethod<void>('spread', ...args);
+	}
+
+	/**
+	 * Performs a two-finger rotation gesture, moving two fingers around the circle between them.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size, direction, and speed of the gesture.
+	 */
+	rotate(element?: Element, options?: RotateOptions): Command<void>;
+	rotate(options?: RotateOptions): Command<void>;
+	rotate(...args: any[]) {
+		return this._callSessionMethod<void>('rotate', ...args);
+	}
+
+	/**
+	 * Performs a swipe gesture with one or more fingers side by side.
+	 *
+	 * @param element The element the gesture starts at. Defaults to the centre of the viewport.
+	 * @param options Options that control the distance, number of fingers, and speed of the gesture.
+	 */
+	swipe(element: Element, options: SwipeOptions): Command<void>;
+	swipe(options: SwipeOptions): Command<void>;
+	swipe(...args: any[]) {
+		return this._callSessionMethod<void>('swipe', ...args);
+	}
+
 	/**
 	 * Gets the current geographical location of the remote environment.
 	 *
@@ -1460,6 +1596,14 @@ export default class Command<T> extends Locator<Command<Element>, Command<Elemen
 		return this._callElementMethod<{ width: number, height: number }>('getSize');
 	}
 
+	/**
+	 * Gets a screenshot of the element and returns it in PNG format. See [[Element.takeScreenshot]] for details.
+	 * Use [[Command.takeScreenshot]] to get a screenshot of the whole window.
+	 */
+	takeElementScreenshot() {
+		return this._callElementMethod<Buffer>('takeScreenshot');
+	}
+
 	/**
 	 * Gets a CSS computed property value for the element.
 	 *
@@ -1,10 +1,12 @@
 import findDisplayed from './lib/findDisplayed';
 import * as fs from 'fs';
-import Locator, { toW3cLocator } from './lib/Locator';
+import Locator from './lib/Locator';
 import waitForDeleted from './lib/waitForDeleted';
 import { sleep } from './lib/util';
 import Task from '@dojo/core/async/Task';
 import Session from './Session';
+import { createError } from './errors';
+import * as png from './lib/png';
 import JSZip = require('jszip');
 import { basename } from 'path';
 
@@ -49,18 +51,29 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 		return this._session;
 	}
 
-	private _get<T>(path: string, requestData?: any, pathParts?: any): Task<any> {
-		path = 'element/' + encodeURIComponent(this._elementId) + '/' + path;
-		return this._session.serverGet<T>(path, requestData, pathParts);
+	/**
+	 * Makes a GET request to an element endpoint. The element ID is always the first path part (`$0`), so any
+	 * additional placeholders in `path` start from `$1`.
+	 */
+	private _get<T>(path: string, requestData?: any, pathParts?: any[]): Task<any> {
+		return this._session.serverGet<T>('element/$0/' + path, requestData, [ this._elementId ].concat(pathParts || []));
 	}
 
-	private _post<T>(path: string, requestData?: any, pathParts?: any): Task<any> {
-		path = 'element/' + encodeURIComponent(this._elementId) + '/' + path;
-		return this._session.serverPost<T>(path, requestData, pathParts);
+	/**
+	 * Makes a POST request to an element endpoint. The element ID is always the first path part (`$0`), so any
+	 * additional placeholders in `path` start from `$1`.
+	 */
+	private _post<T>(path: string, requestData?: any, pathParts?: any[]): Task<any> {
+		return this._session.serverPost<T>('element/$0/' + path, requestData, [ this._elementId ].concat(pathParts || []));
 	}
 
 	toJSON() {
-		return { ELEMENT: this._elementId };
+		// Serialise using both the JsonWireProtocol and W3C WebDriver element reference keys so the element can be
+		// passed to a remote end speaking either dialect
+		return {
+			ELEMENT: this._elementId,
+			'element-6066-11e4-a52e-4f735466cecf': this._elementId
+		};
 	}
 
 	/**
@@ -117,20 +130,12 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 	find(using: string, value: string): Task<Element> {
 		const session = this._session;
 
-		if (session.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
 		if (using.indexOf('link text') !== -1 && this.session.capabilities.brokenWhitespaceNormalization) {
 			return this.session.execute<any>(/* istanbul ignore next */ this.session['_manualFindByLinkText'], [
 				using, value, false, this
 			]).then(function (element: ElementOrElementId) {
 				if (!element) {
-					const error = new Error();
-					error.name = 'NoSuchElement';
-					throw error;
+					throw createError(7);
 				}
 				return new Element(element, session);
 			});
@@ -144,10 +149,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 		}).catch(function (error) {
 			// At least Firefox 49 + geckodriver returns an UnknownCommand error when unable to find elements.
 			if (error.name === 'UnknownCommand' && error.message.indexOf('Unable to locate element:') !== -1) {
-				const newError = new Error();
-				newError.name = 'NoSuchElement';
-				newError.message = error.message;
-				throw newError;
+				throw createError(7, error.message);
 			}
 			throw error;
 		});
@@ -165,12 +167,6 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 	findAll(using: string, value: string): Task<Element[]> {
 		const session = this._session;
 
-		if (session.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
 		if (using.indexOf('link text') !== -1 && this.session.capabilities.brokenWhitespaceNormalization) {
 			return this.session.execute(/* istanbul ignore next */ this.session['_manualFindByLinkText'], [
 				using, value, true, this
@@ -255,13 +251,6 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * The text to type in the remote environment. See [[Session.pressKeys]] for more information.
 	 */
 	type(value: string|string[]): Task<void> {
-		const getPostData = (value: string[]): { value: string[] } => {
-			if (this.session.capabilities.isWebDriver) {
-				return { value: value.join('').split('') };
-			}
-			return { value };
-		};
-
 		if (!Array.isArray(value)) {
 			value = [ value ];
 		}
@@ -274,7 +263,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 			try {
 				if (fs.statSync(filename).isFile()) {
 					return this._uploadFile(filename).then(uploadedFilename => {
-						return this._post('value', getPostData([ uploadedFilename ])).then(noop);
+						return this._post('value', { value: [ uploadedFilename ] }).then(noop);
 					});
 				}
 			}
@@ -284,7 +273,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 		}
 
 		// If the input isn't a filename, just post the value directly
-		return this._post('value', getPostData(value)).then(noop);
+		return this._post('value', { value }).then(noop);
 	}
 
 	/**
@@ -353,7 +342,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * attribute exists.
 	 */
 	getSpecAttribute(name: string): Task<string> {
-		return this._get('attribute/$0', null, [ name ]).then((value) => {
+		return this._get('attribute/$1', null, [ name ]).then((value) => {
 			if (this.session.capabilities.brokenNullGetSpecAttribute && (value === '' || value === undefined)) {
 				return this.session.execute(/* istanbul ignore next */ function (element: HTMLElement, name: string) {
 					return element.hasAttribute(name);
@@ -401,7 +390,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 	 */
 	equals(other: Element): Task<boolean> {
 		const elementId = other.elementId || other;
-		return this._get('equals/$0', null, [ elementId ]).catch((error) => {
+		return this._get('equals/$1', null, [ elementId ]).catch((error) => {
 			// At least Selendroid 0.9.0 does not support this command;
 			// At least ios-driver 0.6.6-SNAPSHOT April 2014 fails
 			if (error.name === 'UnknownCommand' ||
@@ -504,6 +493,83 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 		});
 	}
 
+	/**
+	 * Gets a screenshot of the element and returns it in PNG format. The element is scrolled into view first if it
+	 * is not visible in the viewport.
+	 *
+	 * If the remote driver does not support the W3C element screenshot command, a screenshot of the focused window is
+	 * taken and cropped to the position and size of the element, taking into account the scroll position of the
+	 * window and its device pixel ratio.
+	 *
+	 * @returns A buffer containing a PNG image.
+	 */
+	takeScreenshot(): Task<Buffer> {
+		const session = this.session;
+
+		const cropScreenshot = () => {
+			let viewport: { scrollX: number, scrollY: number, height: number, pixelRatio: number };
+			let position: { x: number, y: number };
+			let size: { width: number, height: number };
+
+			return session.execute<typeof viewport>(/* istanbul ignore next */ function (element: HTMLElement) {
+				const rect = element.getBoundingClientRect();
+				if (rect.top < 0 || rect.left < 0 || rect.bottom > window.innerHeight || rect.right > window.innerWidth) {
+					element.scrollIntoView();
+				}
+
+				return {
+					scrollX: document.documentElement.scrollLeft || document.body.scrollLeft,
+					scrollY: document.documentElement.scrollTop || document.body.scrollTop,
+					height: window.innerHeight,
+					pixelRatio: window.devicePixelRatio || 1
+				};
+			}, [ this ]).then(value => {
+				viewport = value;
+				return this.getPosition();
+			}).then(value => {
+				position = value;
+				return this.getSize();
+			}).then(value => {
+				size = value;
+				return session.takeScreenshot();
+			}).then(function (screenshot) {
+				const image = png.decode(screenshot);
+				const ratio = viewport.pixelRatio;
+				let x = position.x;
+				let y = position.y;
+
+				// Some drivers capture the whole document rather than the viewport, in which case the position of the
+				// element in the document is also its position in the screenshot
+				if (image.height <= Math.ceil(viewport.height * ratio)) {
+					x -= viewport.scrollX;
+					y -= viewport.scrollY;
+				}
+
+				const cropped = png.crop(image, x * ratio, y * ratio, size.width * ratio, size.height * ratio);
+				if (!cropped.width || !cropped.height) {
+					throw new Error('Element is not visible in the screenshot');
+				}
+
+				return png.encode(cropped);
+			});
+		};
+
+		if (session.capabilities.brokenElementScreenshot) {
+			return cropScreenshot();
+		}
+
+		return this._get('screenshot').then(function (data: string) {
+			return new Buffer(data, 'base64');
+		}, function (error) {
+			if (error.name === 'UnknownCommand') {
+				session.capabilities.brokenElementScreenshot = true;
+				return cropScreenshot();
+			}
+
+			throw error;
+		});
+	}
+
 	/**
 	 * Gets a CSS computed property value for the element.
 	 *
@@ -523,7 +589,7 @@ export default class Element extends Locator<Task<Element>, Task<Element[]>, Tas
 			promise = manualGetStyle();
 		}
 		else {
-			promise = this._get('css/$0', null, [ propertyName ]).catch(function (error) {
+			promise = this._get('css/$1', null, [ propertyName ]).catch(function (error) {
 				// At least Selendroid 0.9.0 does not support this command
 				if (error.name === 'UnknownCommand') {
 					return manualGetStyle();
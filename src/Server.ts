@@ -4,13 +4,35 @@ import request, { RequestOptions, Response } from '@dojo/core/request';
 import { NodeRequestOptions } from '@dojo/core/request/providers/node';
 import Session from './Session';
 import Element from './Element';
-import statusCodes from './lib/statusCodes';
+import { w3cErrorCodes, w3cOnlyErrors } from './lib/statusCodes';
+import { createError } from './errors';
 import * as urlUtil from 'url';
 import * as util from './lib/util';
 import { create } from '@dojo/core/lang';
+import { EventTargettedObject, Handle } from '@dojo/interfaces/core';
+import Evented from '@dojo/core/Evented';
+import { defaultRetryPolicy, getRetryDelay, isSessionQueueFullError, RetryPolicy } from './lib/retry';
+import { Headers } from '@dojo/core/request/interfaces';
 import { Capabilities, LeadfootURL, LeadfootError } from './interfaces';
-
-export default class Server {
+import Cassette from './lib/Cassette';
+import CapabilityCache from './lib/CapabilityCache';
+import SessionInfo from './lib/SessionInfo';
+import { CapabilityReport, ProbeResult } from './lib/capabilityReport';
+import { applyQuirkProfile, getQuirkProfile, QuirkProfile, shouldProbe } from './lib/quirks';
+import { Dialect, getEndpoint } from './lib/endpoints';
+import {
+	createBatchScript,
+	createProbeHelpers,
+	exclusiveRequirements,
+	Probe,
+	ProbeHelpers,
+	ProbeRequirements,
+	probeRequirements,
+	runProbes,
+	ScriptProbe
+} from './lib/probes';
+
+export default class Server extends Evented {
 	url: string;
 
 	requestOptions: RequestOptions;
@@ -26,6 +48,61 @@ export default class Server {
 	 */
 	fixSessionCapabilities = true;
 
+	/**
+	 * A cassette used to record the HTTP traffic of this server, or to replay previously recorded traffic instead of
+	 * contacting the remote server.
+	 */
+	cassette: Cassette;
+
+	/**
+	 * The policy used to retry requests that fail due to transient failures of the remote server or of the network,
+	 * like a Selenium Grid hub that temporarily responds with HTTP 503. Properties that are not specified are taken
+	 * from [[defaultRetryPolicy]]. A `retry` event is emitted by the server before each retry.
+	 *
+	 * Retries are opt-in: by default, requests are not retried. Set this to an empty object to retry requests using
+	 * the default policy, which retries GET requests and requests sent with the `safe` option. Sessions send POST
+	 * requests for operations that can safely be repeated, like setting timeouts, switching windows or frames, and
+	 * finding elements, with the `safe` option, so these are retried as well.
+	 */
+	retryPolicy: RetryPolicy;
+
+	/**
+	 * A cache of the capabilities detected for each remote environment. When a cache is provided, the capabilities
+	 * of a new session are only detected if the cache does not already contain the capabilities of an identical
+	 * environment.
+	 */
+	capabilityCache: CapabilityCache;
+
+	/**
+	 * The quirk profile used for new sessions that do not specify a `quirks` desired capability. This may be the name
+	 * of a registered profile, the path to a JSON file containing a profile, or a profile object. The capabilities
+	 * forced by the profile are set even when [[Server.fixSessionCapabilities]] is false.
+	 */
+	quirks: string | QuirkProfile;
+
+	/**
+	 * The maximum number of feature tests that are run at once while detecting the capabilities of a session. Feature
+	 * tests that use the same part of the remote environment, like the current page or window, are never run at the
+	 * same time regardless of this limit. Set to 1 to run feature tests one at a time.
+	 */
+	probeConcurrency = 4;
+
+	/**
+	 * The default pipelining policy of sessions created by this server, which controls how many requests a session may
+	 * send to the remote server at once. Requests are sent one at a time by default. Requests are only sent in
+	 * parallel if the remote server is known to handle parallel requests correctly (the `supportsConcurrentRequests`
+	 * capability), so parallel branches of a [[Command]] chain only overlap with remote servers that support it. Each
+	 * session can override this policy using [[Session.pipelining]]. The `supportsConcurrentRequests` capability is
+	 * only detected for sessions that are created while a policy other than 'serial' is in effect.
+	 */
+	pipelining: PipeliningPolicy = 'serial';
+
+	private _middleware: Middleware[] = [];
+
+	private _featureTests: { [name: string]: FeatureTest } = {};
+
+	private _trackedSessions: Session[] = [];
+
 	/**
 	 * The Server class represents a remote HTTP server implementing the WebDriver wire protocol that can be used to
 	 * generate new remote control sessions.
@@ -39,6 +116,8 @@ export default class Server {
 	 */
 	// TODO: NodeRequestOptions doesn't take a type in dojo-core alpha 20
 	constructor(url: string | LeadfootURL, options?: NodeRequestOptions) {
+		super();
+
 		if (typeof url === 'object') {
 			url = <URL>Object.create(url);
 			if (url.username || url.password || url.accessKey) {
@@ -51,8 +130,8 @@ export default class Server {
 	}
 
 	/**
-	 * A function that performs an HTTP request to a JsonWireProtocol endpoint and normalises response status and
-	 * data.
+	 * A function that performs an HTTP request to a JsonWireProtocol endpoint through the middleware chain and
+	 * normalises response status and data.
 	 *
 	 * @param method
 	 * The HTTP method to fix
@@ -65,103 +144,64 @@ export default class Server {
 	 * The payload for the request.
 	 *
 	 * @param pathParts Optional placeholder values to inject into the path of the URL.
+	 *
+	 * @param options Additional options for the request.
 	 */
-	private _sendRequest<T>(method: string, path: string, requestData: any, pathParts?: string[]): Task<T> {
-		const url = this.url + path.replace(/\$(\d)/, function (_, index) {
+	private _sendRequest<T>(
+		method: string,
+		path: string,
+		requestData: any,
+		pathParts?: string[],
+		options?: SendOptions
+	): Task<T> {
+		const url = this.url + path.replace(/\$(\d)/g, function (_, index) {
 			return encodeURIComponent(pathParts[index]);
 		});
 
-		const defaultRequestHeaders: { [key: string]: string } = {
-			// At least FirefoxDriver on Selenium 2.40.0 will throw a NullPointerException when retrieving
-			// session capabilities if an Accept header is not provided. (It is a good idea to provide one
-			// anyway)
-			'Accept': 'application/json,text/plain;q=0.9'
-		};
-
-		const kwArgs = create(this.requestOptions, {
-			followRedirects: false,
-			handleAs: 'text',
-			headers: { ...defaultRequestHeaders },
-			method: method
-		});
-
-		if (requestData) {
-			kwArgs.body = JSON.stringify(requestData);
-			kwArgs.headers['Content-Type'] = 'application/json;charset=UTF-8';
-			// At least ChromeDriver 2.9.248307 will not process request data if the length of the data is not
-			// provided. (It is a good idea to provide one anyway)
-			kwArgs.headers['Content-Length'] = String(Buffer.byteLength(kwArgs.body, 'utf8'));
-		}
-		else {
-			// At least Selenium 2.41.0 - 2.42.2 running as a grid hub will throw an exception and drop the current
-			// session if a Content-Length header is not provided with a DELETE or POST request, regardless of whether
-			// the request actually contains any request data.
-			kwArgs.headers['Content-Length'] = '0';
-		}
-
 		const trace: any = {};
 		Error.captureStackTrace(trace, this._sendRequest);
 
-		return new Task((resolve, reject) => {
-			request(url, kwArgs).then(resolve, reject).finally(() => {
-				const error = new Error('Canceled');
-				error.name = 'CancelError';
-				reject(error);
-			});
-		}).then(function handleResponse(response: Response): Object | Task<Object> {
-			/*jshint maxcomplexity:24 */
-			// The JsonWireProtocol specification prior to June 2013 stated that creating a new session should
-			// perform a 3xx redirect to the session capabilities URL, instead of simply returning the returning
-			// data about the session; as a result, we need to follow all redirects to get consistent data
-			if (response.status >= 300 && response.status < 400 && response.headers.get('Location')) {
-				let redirectUrl = response.headers.get('Location');
-
-				// If redirectUrl isn't an absolute URL, resolve it based on the orignal URL used to create the session
-				if (!/^\w+:/.test(redirectUrl)) {
-					redirectUrl = urlUtil.resolve(url, redirectUrl);
-				}
-
-				return request(redirectUrl, {
-					method: 'GET',
-					headers: defaultRequestHeaders
-				}).then(handleResponse);
-			}
-
-			return response.text().then(data => {
-				return { response, data };
-			});
-		}).then((responseData: ResponseData) => {
-			const response = responseData.response;
-			const responseType = response.headers.get('Content-Type');
-			let data: any;
+		// A fresh request object is created for every attempt so that changes made by middleware to one attempt do
+		// not leak into the next
+		const createRequest = (): ServerRequest => ({
+			method,
+			url,
+			headers: {
+				// At least FirefoxDriver on Selenium 2.40.0 will throw a NullPointerException when retrieving
+				// session capabilities if an Accept header is not provided. (It is a good idea to provide one
+				// anyway)
+				'Accept': 'application/json,text/plain;q=0.9'
+			},
+			data: requestData,
+			safe: Boolean(options && options.safe)
+		});
 
-			if (responseType && responseType.indexOf('application/json') === 0 && responseData.data) {
-				data = JSON.parse(responseData.data);
-			}
+		const sendRequest = (serverRequest: ServerRequest) => this._dispatch(serverRequest, 0).then(serverResponse => {
+			/*jshint maxcomplexity:24 */
+			const { response, status } = serverResponse;
+			let data = serverResponse.data;
 
 			// Some drivers will respond to a DELETE request with 204; in this case, we know the operation
 			// completed successfully, so just create an expected response data structure for a successful
 			// operation to avoid any special conditions elsewhere in the code caused by different HTTP return
 			// values
-			if (response.status === 204) {
+			if (status === 204) {
 				data = {
 					status: 0,
 					sessionId: null,
 					value: null
 				};
 			}
-			else if (response.status >= 400 || (data && data.status > 0)) {
-				const error: any = new Error();
-
+			else if (status >= 400 || (data && data.status > 0)) {
 				// "The client should interpret a 404 Not Found response from the server as an "Unknown command"
 				// response. All other 4xx and 5xx responses from the server that do not define a status field
 				// should be interpreted as "Unknown error" responses."
 				// - http://code.google.com/p/selenium/wiki/JsonWireProtocol#Response_Status_Codes
 				if (!data) {
 					data = {
-						status: response.status === 404 || response.status === 501 ? 9 : 13,
+						status: status === 404 || status === 501 ? 9 : 13,
 						value: {
-							message: responseData.data
+							message: serverResponse.text
 						}
 					};
 				}
@@ -169,24 +209,35 @@ export default class Server {
 				// error data on the `value` key, and does not return the correct HTTP status for unknown commands
 				else if (!data.value && ('message' in data)) {
 					data = {
-						status: response.status === 404 || response.status === 501 ||
+						status: status === 404 || status === 501 ||
 							data.message.indexOf('cannot find command') > -1 ? 9 : 13,
 						value: data
 					};
 				}
+				// W3C WebDriver servers do not return a numeric status; errors are identified by a string code in the
+				// `error` property of the response value instead. Errors that have no JsonWireProtocol equivalent are
+				// left without a status and created from their W3C error code.
+				else if (data.status == null && data.value && data.value.error) {
+					if (w3cErrorCodes[data.value.error]) {
+						data.status = w3cErrorCodes[data.value.error];
+					}
+					else if (!w3cOnlyErrors[data.value.error]) {
+						data.status = 13;
+					}
+				}
 
 				// At least Appium April 2014 responds with the HTTP status Not Implemented but a Selenium
 				// status UnknownError for commands that are not implemented; these errors are more properly
 				// represented to end-users using the Selenium status UnknownCommand, so we make the appropriate
 				// coercion here
-				if (response.status === 501 && data.status === 13) {
+				if (status === 501 && data.status === 13) {
 					data.status = 9;
 				}
 
 				// At least BrowserStack in May 2016 responds with HTTP 500 and a message value of "Invalid Command" for
 				// at least some unknown commands. These errors are more properly represented to end-users using the
 				// Selenium status UnknownCommand, so we make the appropriate coercion here
-				if (response.status === 500 && data.value && data.value.message === 'Invalid Command') {
+				if (status === 500 && data.value && data.value.message === 'Invalid Command') {
 					data.status = 9;
 				}
 
@@ -204,7 +255,7 @@ export default class Server {
 				// At least InternetExplorerDriver 2.41.0 & SafariDriver 2.41.0 respond with HTTP status codes
 				// other than Not Implemented and a Selenium status UnknownError for commands that are not
 				// implemented; like FirefoxDriver they provide a reliable indicator of unsupported commands
-				if (response.status === 500 && data.value && data.value.message &&
+				if (status === 500 && data.value && data.value.message &&
 					(
 						data.value.message.indexOf('Command not found') > -1 ||
 						data.value.message.indexOf('Unknown command') > -1
@@ -215,24 +266,18 @@ export default class Server {
 
 				// At least GhostDriver 1.1.0 incorrectly responds with HTTP 405 instead of HTTP 501 for
 				// unimplemented commands
-				if (response.status === 405 && data.value && data.value.message &&
+				if (status === 405 && data.value && data.value.message &&
 					data.value.message.indexOf('Invalid Command Method') > -1
 				) {
 					data.status = 9;
 				}
 
-				const [name, message] = (<any>statusCodes)[data.status];
-				if (name && message) {
-					error.name = name;
-					error.message = message;
-				}
-
-				if (data.value && data.value.message) {
-					error.message = data.value.message;
-				}
+				const error = createError(data.status != null ? data.status : data.value && data.value.error,
+					data.value && data.value.message);
 
 				if (data.value && data.value.screen) {
 					data.value.screen = new Buffer(data.value.screen, 'base64');
+					error.screenshot = data.value.screen;
 				}
 
 				error.status = data.status;
@@ -262,22 +307,246 @@ export default class Server {
 			}
 
 			return data;
-		}).catch(function (error) {
+		});
+
+		return this._retry(createRequest, sendRequest, options && options.retryable).catch(function (error) {
 			error.stack = error.message + util.trimStack(trace.stack);
 			throw error;
 		});
 	}
 
-	get<T>(path: string, requestData?: Object, pathParts?: string[]): Task<any> {
-		return this._sendRequest<T>('GET', path, requestData, pathParts);
+	/**
+	 * Sends a request, retrying it according to [[Server.retryPolicy]] if it fails.
+	 *
+	 * @param createRequest A function that creates the request to send for each attempt.
+	 * @param sendRequest A function that sends the request and processes its response.
+	 * @param retryable A function that determines whether or not the request can be retried, used instead of the
+	 * `retryable` function of the retry policy.
+	 */
+	private _retry<T>(
+		createRequest: () => ServerRequest,
+		sendRequest: (request: ServerRequest) => Task<T>,
+		retryable?: (error: any) => boolean
+	): Task<T> {
+		const policy: RetryPolicy = this.retryPolicy ? { ...defaultRetryPolicy, ...this.retryPolicy } : null;
+
+		const attempt = (attemptNumber: number): Task<T> => {
+			const serverRequest = createRequest();
+
+			return sendRequest(serverRequest).catch(error => {
+				if (
+					!policy ||
+					attemptNumber >= policy.maxAttempts ||
+					!(retryable ? retryable(error) : policy.retryable(error, serverRequest, attemptNumber))
+				) {
+					throw error;
+				}
+
+				const delay = getRetryDelay(policy, attemptNumber);
+				this.emit<RetryEvent>({
+					type: 'retry',
+					target: this,
+					attempt: attemptNumber,
+					delay,
+					error,
+					request: serverRequest
+				});
+
+				return util.sleep(delay).then(() => attempt(attemptNumber + 1));
+			});
+		};
+
+		return attempt(1);
+	}
+
+	/**
+	 * Passes a request through the middleware chain, starting with the middleware at `index`. Once the end of the
+	 * chain is reached, the request is sent to the remote server.
+	 */
+	private _dispatch(serverRequest: ServerRequest, index: number): Task<ServerResponse> {
+		const middleware = this._middleware[index];
+
+		if (!middleware) {
+			return this._transmit(serverRequest);
+		}
+
+		// A middleware that throws should reject the request rather than throw from the method that sent it
+		return new Task<ServerResponse>(resolve => {
+			resolve(middleware(serverRequest, nextRequest => {
+				return this._dispatch(nextRequest || serverRequest, index + 1);
+			}));
+		});
+	}
+
+	/**
+	 * Sends a request to the remote server, following any redirects, and reads the response body.
+	 */
+	private _transmit(serverRequest: ServerRequest): Task<ServerResponse> {
+		const { method, url, headers, data: requestData } = serverRequest;
+		const kwArgs = create(this.requestOptions, {
+			followRedirects: false,
+			handleAs: 'text',
+			headers: { ...headers },
+			method: method
+		});
+
+		if (requestData) {
+			kwArgs.body = JSON.stringify(requestData);
+			kwArgs.headers['Content-Type'] = 'application/json;charset=UTF-8';
+			// At least ChromeDriver 2.9.248307 will not process request data if the length of the data is not
+			// provided. (It is a good idea to provide one anyway)
+			kwArgs.headers['Content-Length'] = String(Buffer.byteLength(kwArgs.body, 'utf8'));
+		}
+		else {
+			// At least Selenium 2.41.0 - 2.42.2 running as a grid hub will throw an exception and drop the current
+			// session if a Content-Length header is not provided with a DELETE or POST request, regardless of whether
+			// the request actually contains any request data.
+			kwArgs.headers['Content-Length'] = '0';
+		}
+
+		const self = this;
+
+		return new Task((resolve, reject) => {
+			this._request(url, kwArgs).then(resolve, reject).finally(() => {
+				const error = new Error('Canceled');
+				error.name = 'CancelError';
+				reject(error);
+			});
+		}).then(function handleResponse(response: Response): Response | Task<Response> {
+			// The JsonWireProtocol specification prior to June 2013 stated that creating a new session should
+			// perform a 3xx redirect to the session capabilities URL, instead of simply returning the returning
+			// data about the session; as a result, we need to follow all redirects to get consistent data
+			if (response.status >= 300 && response.status < 400 && response.headers.get('Location')) {
+				let redirectUrl = response.headers.get('Location');
+
+				// If redirectUrl isn't an absolute URL, resolve it based on the orignal URL used to create the session
+				if (!/^\w+:/.test(redirectUrl)) {
+					redirectUrl = urlUtil.resolve(url, redirectUrl);
+				}
+
+				return self._request(redirectUrl, {
+					method: 'GET',
+					headers: { ...headers }
+				}).then(handleResponse);
+			}
+
+			return response;
+		}).then(response => {
+			return response.text().then(text => {
+				const responseType = response.headers.get('Content-Type');
+				let data: any;
+
+				if (responseType && responseType.indexOf('application/json') === 0 && text) {
+					data = JSON.parse(text);
+				}
+
+				return { status: response.status, headers: response.headers, text, data, response };
+			});
+		});
+	}
+
+	/**
+	 * Performs a raw HTTP request, recording it to or replaying it from [[Server.cassette]] if one is in use.
+	 */
+	private _request(url: string, options: RequestOptions): Task<Response> {
+		const cassette = this.cassette;
+
+		if (!cassette) {
+			return request(url, options);
+		}
+
+		const path = url.indexOf(this.url) === 0 ? url.slice(this.url.length) : url;
+		const requestData = <string>options.body;
+
+		if (cassette.mode === 'replay') {
+			return new Task<Response>(resolve => {
+				resolve(cassette.replay(options.method, path, requestData, url));
+			});
+		}
+
+		return request(url, options).then(response => {
+			return cassette.record(options.method, path, requestData, <Response>response);
+		}, error => {
+			cassette.recordError(options.method, path, requestData, error);
+			throw error;
+		});
+	}
+
+	/**
+	 * Adds a middleware to the end of the chain of middleware that every request to the remote server passes
+	 * through. Middleware are called in the order they are added for outgoing requests, and in reverse order for
+	 * incoming responses.
+	 *
+	 * @param middleware The middleware to add.
+	 * @returns A handle that can be used to remove the middleware.
+	 */
+	use(middleware: Middleware): Handle {
+		const list = this._middleware;
+		list.push(middleware);
+
+		return {
+			destroy() {
+				this.destroy = noop;
+				const index = list.indexOf(middleware);
+				if (index > -1) {
+					list.splice(index, 1);
+				}
+			}
+		};
+	}
+
+	/**
+	 * Adds a custom feature test that is run when the capabilities of a new session are detected. Custom feature tests
+	 * run after all of the built-in feature tests, in the order they are added unless they declare less restrictive
+	 * `requirements`, and their results are added to the capabilities of the session using the name of the test.
+	 * Adding a test with the same name as an existing custom test replaces it; adding a test with the same name as a
+	 * built-in capability overrides the built-in result.
+	 *
+	 * ```js
+	 * server.addFeatureTest('brokenGetSize', {
+	 *     page: '<!DOCTYPE html><div id="a" style="width: 10px; height: 10px;"></div>',
+	 *     failureValue: true,
+	 *     probe: function (session) {
+	 *         return session.findById('a').then(function (element) {
+	 *             return element.getSize();
+	 *         }).then(function (size) {
+	 *             return size.width !== 10 || size.height !== 10;
+	 *         });
+	 *     }
+	 * });
+	 * ```
+	 *
+	 * Feature tests should be added before any sessions are created, since capabilities loaded from
+	 * [[Server.capabilityCache]] only include the results of tests that existed when the environment was cached.
+	 *
+	 * @param name The name of the capability detected by the test.
+	 * @param test The feature test.
+	 * @returns A handle that can be used to remove the feature test.
+	 */
+	addFeatureTest(name: string, test: FeatureTest): Handle {
+		const featureTests = this._featureTests;
+		featureTests[name] = test;
+
+		return {
+			destroy() {
+				this.destroy = noop;
+				if (featureTests[name] === test) {
+					delete featureTests[name];
+				}
+			}
+		};
+	}
+
+	get<T>(path: string, requestData?: Object, pathParts?: string[], options?: SendOptions): Task<any> {
+		return this._sendRequest<T>('GET', path, requestData, pathParts, options);
 	}
 
-	post<T>(path: string, requestData?: Object, pathParts?: string[]): Task<any> {
-		return this._sendRequest<T>('POST', path, requestData, pathParts);
+	post<T>(path: string, requestData?: Object, pathParts?: string[], options?: SendOptions): Task<any> {
+		return this._sendRequest<T>('POST', path, requestData, pathParts, options);
 	}
 
-	delete<T>(path: string, requestData?: Object, pathParts?: string[]): Task<any> {
-		return this._sendRequest<T>('DELETE', path, requestData, pathParts);
+	delete<T>(path: string, requestData?: Object, pathParts?: string[], options?: SendOptions): Task<any> {
+		return this._sendRequest<T>('DELETE', path, requestData, pathParts, options);
 	}
 
 	/**
@@ -293,6 +562,11 @@ export default class Server {
 	/**
 	 * Creates a new remote control session on the remote server.
 	 *
+	 * The new session request is sent using both the legacy JsonWireProtocol payload and the W3C WebDriver
+	 * `capabilities` payload so that it will be accepted by servers speaking either dialect. The dialect actually
+	 * used by the remote end is determined from the shape of its response and recorded in the `isWebDriver`
+	 * capability of the new session.
+	 *
 	 * @param desiredCapabilities
 	 * A hash map of desired capabilities of the remote environment. The server may return an environment that does
 	 * not match all the desired capabilities if one is not available.
@@ -305,25 +579,83 @@ export default class Server {
 		const fixSessionCapabilities = desiredCapabilities.fixSessionCapabilities !== false &&
 			this.fixSessionCapabilities;
 
-		// Don’t send `fixSessionCapabilities` to the server
-		if ('fixSessionCapabilities' in desiredCapabilities) {
+		let quirks: QuirkProfile;
+		try {
+			quirks = getQuirkProfile(desiredCapabilities.quirks || this.quirks);
+		}
+		catch (error) {
+			return Task.reject<Session>(error);
+		}
+
+		// Don’t send `fixSessionCapabilities` or `quirks` to the server
+		if ('fixSessionCapabilities' in desiredCapabilities || 'quirks' in desiredCapabilities) {
 			desiredCapabilities = { ...desiredCapabilities };
 			desiredCapabilities.fixSessionCapabilities = undefined;
+			desiredCapabilities.quirks = undefined;
 		}
 
+		// W3C servers reject capabilities that appear in both `alwaysMatch` and `firstMatch`, so required
+		// capabilities take precedence over desired capabilities of the same name
+		const alwaysMatch = toW3cCapabilities(requiredCapabilities || {});
+		const firstMatch = toW3cCapabilities(desiredCapabilities);
+		Object.keys(alwaysMatch).forEach(key => {
+			delete firstMatch[key];
+		});
+
 		return this.post('session', {
 			desiredCapabilities,
-			requiredCapabilities
+			requiredCapabilities,
+			capabilities: {
+				alwaysMatch,
+				firstMatch: [ firstMatch ]
+			}
+		}, null, {
+			// A new session request that failed for any other reason, like a dropped connection or a gateway error,
+			// may still have created a session that would be leaked if the request were sent again
+			retryable: isSessionQueueFullError
 		}).then((response): Session | Task<Session | void> => {
-			// At least geckodriver 0.15.0 returns the response data in a 'value' property, whereas Selenium does not.
-			if (response.value && response.value.sessionId) {
-				response = response.value;
+			let sessionId: string;
+			let capabilities: Capabilities;
+			let isWebDriver: boolean;
+
+			// A JsonWireProtocol server always responds with a numeric status alongside the session ID and returns the
+			// capabilities in the `value` property
+			if (typeof response.status === 'number' || response.sessionId) {
+				sessionId = response.sessionId;
+				capabilities = response.value;
+				isWebDriver = false;
+			}
+			// A W3C WebDriver server nests the session ID and the capabilities inside of the `value` property. At
+			// least geckodriver 0.15.0 returns the capabilities in a nested `value` property instead of
+			// `capabilities`.
+			else if (response.value && response.value.sessionId) {
+				sessionId = response.value.sessionId;
+				capabilities = response.value.capabilities || response.value.value;
+				isWebDriver = true;
+			}
+			else {
+				throw new Error('Invalid response to new session request: ' + JSON.stringify(response));
 			}
 
-			const session = new this.sessionConstructor(response.sessionId, this, response.value);
+			capabilities = { ...capabilities, isWebDriver };
+
+			const session = new this.sessionConstructor(sessionId, this, capabilities);
+			this._trackedSessions.push(session);
+
+			if (quirks) {
+				Object.defineProperty(session.capabilities, '_quirks', {
+					value: quirks,
+					configurable: true
+				});
+			}
 
 			if (fixSessionCapabilities) {
-				return this._fillCapabilities(session).catch(error => {
+				session.setState('creating');
+
+				return this._fillCapabilities(session).then(() => {
+					session.setState('active');
+					return session;
+				}, error => {
 					// The session was started on the server, but we did not resolve the Task yet. If a failure
 					// occurs during capabilities filling, we should quit the session on the server too since the
 					// caller will not be aware that it ever got that far and will have no access to the session to
@@ -334,85 +666,305 @@ export default class Server {
 				});
 			}
 			else {
+				applyQuirkProfile(session.capabilities, quirks);
 				return session;
 			}
 		});
 	}
 
-	private _fillCapabilities(session: Session): Task<void | Session> {
-		const capabilities = session.capabilities;
+	/**
+	 * Creates a Session object for an existing remote control session, like one created by another process.
+	 *
+	 * The capabilities reported by the remote server are retrieved with [[Server.getSessionCapabilities]]. If the
+	 * capabilities detected for the session were saved when it was created, they can be restored with the
+	 * `capabilities` option to avoid detecting them again:
+	 *
+	 * ```js
+	 * // In the process that creates the session
+	 * server.createSession(desiredCapabilities).then(function (session) {
+	 *     fs.writeFileSync('session.json', JSON.stringify({
+	 *         sessionId: session.sessionId,
+	 *         capabilities: session.capabilities
+	 *     }));
+	 * });
+	 *
+	 * // In the process that uses the session
+	 * var saved = JSON.parse(fs.readFileSync('session.json', 'utf8'));
+	 * server.attachSession(saved.sessionId, { capabilities: saved.capabilities });
+	 * ```
+	 *
+	 * The wire protocol dialect of the session is taken from the `dialect` option or the `isWebDriver` restored
+	 * capability if either is provided, and is otherwise detected from the shape of the remote server's response when
+	 * the capabilities of the session are retrieved.
+	 *
+	 * Unlike [[Server.createSession]], the remote session is not quit if detecting its capabilities fails, since it is
+	 * owned by someone else.
+	 *
+	 * @param sessionId The ID of the session.
+	 * @param options Options for the session.
+	 */
+	attachSession(sessionId: string, options: AttachOptions = {}): Task<Session> {
+		const restoredCapabilities = options.capabilities;
+		const fixSessionCapabilities = options.fixSessionCapabilities != null ? options.fixSessionCapabilities :
+			this.fixSessionCapabilities;
+		const SessionConstructor = options.sessionConstructor || this.sessionConstructor;
 
-		// At least geckodriver 0.15.0 only returns platformName (not platform) and browserVersion (not version) in its
-		// capabilities.
-		if (capabilities.platform && !capabilities.platformName) {
-			capabilities.platformName = capabilities.platform;
+		let quirks: QuirkProfile;
+		try {
+			quirks = getQuirkProfile(options.quirks || this.quirks);
 		}
-		if (capabilities.version && !capabilities.browserVersion) {
-			capabilities.browserVersion = capabilities.version;
+		catch (error) {
+			return Task.reject<Session>(error);
 		}
 
-		function supported() { return true; }
-		function unsupported() { return false; }
-		function maybeSupported(error: Error) {
-			if (error.name === 'UnknownCommand') {
-				return false;
+		let detectedDialect: Dialect;
+
+		return this.get('session/$0', null, [ sessionId ]).then(response => {
+			// Like the new session response, a JsonWireProtocol response always includes a numeric status alongside
+			// the session ID, whereas a W3C WebDriver response only has a `value` property
+			detectedDialect = typeof response.status === 'number' || response.sessionId ? 'jsonwire' : 'w3c';
+			return returnValue(response);
+		}, error => {
+			// The W3C WebDriver standard does not define a way to retrieve the capabilities of an existing session,
+			// so restored capabilities are all that is available
+			if (restoredCapabilities && error.name === 'UnknownCommand') {
+				detectedDialect = 'w3c';
+				return {};
 			}
-			if (/\bunimplemented command\b/.test(error.message)) {
-				return false;
+
+			throw error;
+		}).then(reportedCapabilities => {
+			let dialect = options.dialect || detectedDialect;
+			if (!options.dialect && restoredCapabilities && 'isWebDriver' in restoredCapabilities) {
+				dialect = restoredCapabilities.isWebDriver ? 'w3c' : 'jsonwire';
 			}
-			return true;
-		}
-		const broken = supported;
-		const works = unsupported;
 
-		/**
-		 * Adds the capabilities listed in the `testedCapabilities` object to the hash of capabilities for
-		 * the current session. If a tested capability value is a function, it is assumed that it still needs to
-		 * be executed serially in order to resolve the correct value of that particular capability.
-		 */
-		function addCapabilities(testedCapabilities: Capabilities): Task<void> {
-			return Object.keys(testedCapabilities).reduce((previous: Task<any>, key: keyof Capabilities) => {
-				return previous.then(() => {
-					const value = testedCapabilities[key];
-					const task = typeof value === 'function' ? value() : Task.resolve(value);
-					return task.then((value: any) => {
-						capabilities[key] = value;
-					});
-				});
-			}, Task.resolve());
-		}
+			const session = new SessionConstructor(sessionId, this, {
+				...reportedCapabilities,
+				isWebDriver: dialect === 'w3c'
+			});
+			const capabilities = session.capabilities;
 
-		function get(page: string) {
-			if (capabilities.supportsNavigationDataUris !== false) {
-				return session.get('data:text/html;charset=utf-8,' + encodeURIComponent(page));
+			if (quirks) {
+				Object.defineProperty(capabilities, '_quirks', {
+					value: quirks,
+					configurable: true
+				});
 			}
 
-			// Internet Explorer 9 and earlier, and Microsoft Edge build 10240 and earlier, hang when attempting to do
-			// navigate after a `document.write` is performed to reset the tab content; we can still do some limited
-			// testing in these browsers by using the initial browser URL page and injecting some content through
-			// innerHTML, though it is unfortunately a quirks-mode file so testing is limited
-			if (
-				(capabilities.browserName === 'internet explorer' && parseFloat(capabilities.browserVersion) < 10) ||
-				isMsEdge(capabilities)
-			) {
-				// Edge driver doesn't provide an initialBrowserUrl
-				const initialUrl = capabilities.browserName === 'internet explorer' ? capabilities.initialBrowserUrl :
-					'about:blank';
+			if (restoredCapabilities) {
+				Object.defineProperty(capabilities, '_reported', {
+					value: { ...reportedCapabilities },
+					configurable: true
+				});
 
-				return session.get(initialUrl).then(function () {
-					return session.execute<void>('document.body.innerHTML = arguments[0];', [
-						// The DOCTYPE does not apply, for obvious reasons, but also old IE will discard invisible
-						// elements like `<script>` and `<style>` if they are the first elements injected with
-						// `innerHTML`, so an extra text node is added before the rest of the content instead
-						page.replace('<!DOCTYPE html>', 'x')
-					]);
+				for (let key in restoredCapabilities) {
+					(<any> capabilities)[key] = (<any> restoredCapabilities)[key];
+				}
+				capabilities.isWebDriver = dialect === 'w3c';
+				applyQuirkProfile(capabilities, quirks);
+
+				Object.defineProperty(capabilities, '_filled', {
+					value: true,
+					configurable: true
 				});
+
+				return session;
 			}
 
-			return session.get('about:blank').then(function () {
-				return session.execute<void>('document.write(arguments[0]);', [page]);
-			});
-		}
+			if (fixSessionCapabilities) {
+				session.setState('creating');
+
+				return this._fillCapabilities(session).then(() => {
+					session.setState('active');
+					return session;
+				});
+			}
+
+			applyQuirkProfile(capabilities, quirks);
+			return session;
+		});
+	}
+
+	private _fillCapabilities(session: Session, report?: CapabilityReport): Task<void | Session> {
+		const capabilities = session.capabilities;
+		const cache = this.capabilityCache;
+		const detectedCapabilities: Capabilities = {};
+
+		// Capabilities forced or skipped by a quirk profile are never tested
+		let quirks: QuirkProfile;
+		try {
+			quirks = capabilities._quirks || getQuirkProfile(this.quirks);
+		}
+		catch (error) {
+			return Task.reject<void>(error);
+		}
+
+		if (!capabilities._filled && !capabilities._reported) {
+			// The capabilities reported by the server are kept so that detection can be performed again later
+			Object.defineProperty(capabilities, '_reported', {
+				value: { ...capabilities },
+				configurable: true
+			});
+		}
+
+		// At least geckodriver 0.15.0 and other W3C servers only return platformName (not platform) and browserVersion
+		// (not version) in their capabilities, while JsonWireProtocol servers only return the legacy names. Feature tests
+		// may use either name, so both are filled in before any of them run.
+		util.fillCapabilityNames(capabilities);
+
+		const concurrency = this.probeConcurrency;
+
+		// Requirements of custom feature tests, keyed by capability name
+		const customRequirements: { [name: string]: ProbeRequirements } = {};
+
+		function setCapability(key: string, result: ProbeResult) {
+			(<any> capabilities)[key] = result.value;
+			(<any> detectedCapabilities)[key] = result.value;
+
+			if (report) {
+				report.capabilities[key] = result;
+			}
+		}
+
+		/**
+		 * Adds the capabilities listed in the `testedCapabilities` object to the hash of capabilities for
+		 * the current session. If a tested capability value is a function, it is a feature test that is executed in
+		 * order to resolve the correct value of that particular capability. Feature tests are run concurrently, as
+		 * allowed by their requirements, and script feature tests that use the same page are run together.
+		 */
+		function addCapabilities(testedCapabilities: Capabilities): Task<void> {
+			const probes: Probe[] = [];
+			const batches: { [page: string]: { key: string, probe: ScriptProbe }[] } = {};
+
+			Object.keys(testedCapabilities).forEach(key => {
+				const value: any = (<any> testedCapabilities)[key];
+
+				if (!shouldProbe(quirks, key)) {
+					return;
+				}
+
+				if (value instanceof ScriptProbe) {
+					(batches[value.page] = batches[value.page] || []).push({ key, probe: value });
+				}
+				else if (typeof value === 'function') {
+					const requirements = customRequirements[key] || probeRequirements[key] || exclusiveRequirements;
+					probes.push({
+						name: key,
+						requirements,
+						run() {
+							const result: ProbeResult = { value: undefined, tested: true, duration: 0 };
+							const startTime = Date.now();
+
+							return Task.resolve(value(createProbeHelpers(result))).then(value => {
+								result.value = value;
+								result.duration = Date.now() - startTime;
+								setCapability(key, result);
+							}).finally(() => {
+								if (requirements.page && !requirements.preservesPage) {
+									loadedPage = null;
+								}
+							});
+						}
+					});
+				}
+				else {
+					setCapability(key, { value, tested: false, duration: 0 });
+				}
+			});
+
+			Object.keys(batches).forEach(page => {
+				probes.push(createBatchProbe(page, batches[page]));
+			});
+
+			return runProbes(probes, concurrency);
+		}
+
+		/**
+		 * Creates a feature test that runs several script feature tests against the same page with a single `execute`
+		 * call.
+		 */
+		function createBatchProbe(page: string, batch: { key: string, probe: ScriptProbe }[]): Probe {
+			return {
+				name: batch.map(({ key }) => key).join(','),
+				requirements: { page: true },
+				run() {
+					const startTime = Date.now();
+					const script = createBatchScript(batch.map(({ probe }) => probe.script));
+
+					return get(page).then(() => session.execute<{ value?: any, error?: string }[]>(script)).then(
+						results => results,
+						error => batch.map(() => ({ value: undefined, error }))
+					).then(results => {
+						batch.forEach(({ key, probe }, index) => {
+							const outcome: { value?: any, error?: any } = (results && results[index]) ||
+								{ error: 'No result' };
+							const result: ProbeResult = {
+								value: outcome.value,
+								tested: true,
+								duration: Date.now() - startTime
+							};
+
+							if ('error' in outcome) {
+								result.value = probe.failureValue;
+								result.error = outcome.error instanceof Error ? outcome.error : new Error(outcome.error);
+							}
+
+							setCapability(key, result);
+						});
+					}).finally(() => {
+						loadedPage = null;
+					});
+				}
+			};
+		}
+
+		// The page most recently loaded by `get`, if it has not been modified since it was loaded
+		let loadedPage: string = null;
+
+		function get(page: string): Task<any> {
+			if (page === loadedPage) {
+				return Task.resolve();
+			}
+
+			loadedPage = null;
+
+			return loadPage(page).then(() => {
+				loadedPage = page;
+			});
+		}
+
+		function loadPage(page: string) {
+			if (capabilities.supportsNavigationDataUris !== false) {
+				return session.get('data:text/html;charset=utf-8,' + encodeURIComponent(page));
+			}
+
+			// Internet Explorer 9 and earlier, and Microsoft Edge build 10240 and earlier, hang when attempting to do
+			// navigate after a `document.write` is performed to reset the tab content; we can still do some limited
+			// testing in these browsers by using the initial browser URL page and injecting some content through
+			// innerHTML, though it is unfortunately a quirks-mode file so testing is limited
+			if (
+				(capabilities.browserName === 'internet explorer' && parseFloat(capabilities.browserVersion) < 10) ||
+				isMsEdge(capabilities)
+			) {
+				// Edge driver doesn't provide an initialBrowserUrl
+				const initialUrl = capabilities.browserName === 'internet explorer' ? capabilities.initialBrowserUrl :
+					'about:blank';
+
+				return session.get(initialUrl).then(function () {
+					return session.execute<void>('document.body.innerHTML = arguments[0];', [
+						// The DOCTYPE does not apply, for obvious reasons, but also old IE will discard invisible
+						// elements like `<script>` and `<style>` if they are the first elements injected with
+						// `innerHTML`, so an extra text node is added before the rest of the content instead
+						page.replace('<!DOCTYPE html>', 'x')
+					]);
+				});
+			}
+
+			return session.get('about:blank').then(function () {
+				return session.execute<void>('document.write(arguments[0]);', [page]);
+			});
+		}
 
 		function discoverFeatures() {
 			const testedCapabilities: any = {};
@@ -436,8 +988,9 @@ export default class Server {
 				});
 			}
 
-			// Firefox 49+ (via geckodriver) only supports W3C locator strategies
-			if (isGeckodriver(capabilities)) {
+			// Firefox 49+ (via geckodriver) only supports W3C locator strategies. The dialect is normally known from
+			// the new session response, so this is only necessary for sessions that were not created by this server.
+			if (!('isWebDriver' in capabilities) && isGeckodriver(capabilities)) {
 				testedCapabilities.isWebDriver = true;
 			}
 
@@ -448,12 +1001,16 @@ export default class Server {
 
 			// Appium iOS as of April 2014 supports rotation but does not specify the capability
 			if (!('rotatable' in capabilities)) {
-				testedCapabilities.rotatable = session.getOrientation().then(supported, unsupported);
+				testedCapabilities.rotatable = function ({ supported, unsupported }: ProbeHelpers) {
+					return session.getOrientation().then(supported, unsupported);
+				};
 			}
 
 			if (capabilities.locationContextEnabled) {
-				testedCapabilities.locationContextEnabled = session.getGeolocation()
-					.then(supported, function (error) {
+				testedCapabilities.locationContextEnabled = function ({ recordError, supported, unsupported }: ProbeHelpers) {
+					return session.getGeolocation().then(supported, function (error) {
+						recordError(error);
+
 						// At least FirefoxDriver 2.40.0 and ios-driver 0.6.0 claim they support geolocation in their
 						// returned capabilities map, when they do not
 						if (error.message.indexOf('not mapped : GET_LOCATION') !== -1) {
@@ -470,20 +1027,23 @@ export default class Server {
 
 						return false;
 					});
+				};
 			}
 
 			// At least FirefoxDriver 2.40.0 claims it supports web storage in the returned capabilities map, when
 			// it does not
 			if (capabilities.webStorageEnabled) {
-				testedCapabilities.webStorageEnabled = session.getLocalStorageLength()
-					.then(supported, maybeSupported);
+				testedCapabilities.webStorageEnabled = function ({ supported, maybeSupported }: ProbeHelpers) {
+					return session.getLocalStorageLength().then(supported, maybeSupported);
+				};
 			}
 
 			// At least FirefoxDriver 2.40.0 claims it supports application cache in the returned capabilities map,
 			// when it does not
 			if (capabilities.applicationCacheEnabled) {
-				testedCapabilities.applicationCacheEnabled = session.getApplicationCacheStatus()
-					.then(supported, maybeSupported);
+				testedCapabilities.applicationCacheEnabled = function ({ supported, maybeSupported }: ProbeHelpers) {
+					return session.getApplicationCacheStatus().then(supported, maybeSupported);
+				};
 			}
 
 			// IE11 will take screenshots, but it's very slow
@@ -494,11 +1054,15 @@ export default class Server {
 			// At least Selendroid 0.9.0 will fail to take screenshots in certain device configurations, usually
 			// emulators with hardware acceleration enabled
 			else {
-				testedCapabilities.takesScreenshot = session.takeScreenshot().then(supported, unsupported);
+				testedCapabilities.takesScreenshot = function ({ supported, unsupported }: ProbeHelpers) {
+					return session.takeScreenshot().then(supported, unsupported);
+				};
 			}
 
 			// At least ios-driver 0.6.6-SNAPSHOT April 2014 does not support execute_async
-			testedCapabilities.supportsExecuteAsync = session.executeAsync('arguments[0](true);').catch(unsupported);
+			testedCapabilities.supportsExecuteAsync = function ({ unsupported }: ProbeHelpers) {
+				return session.executeAsync('arguments[0](true);').catch(unsupported);
+			};
 
 			// Some additional, currently-non-standard capabilities are needed in order to know about supported
 			// features of a given platform
@@ -508,7 +1072,7 @@ export default class Server {
 					testedCapabilities.mouseEnabled = true;
 				}
 				else {
-					testedCapabilities.mouseEnabled = function () {
+					testedCapabilities.mouseEnabled = function ({ supported, maybeSupported }: ProbeHelpers) {
 						return session.doubleClick().then(supported, maybeSupported);
 					};
 				}
@@ -519,7 +1083,7 @@ export default class Server {
 				testedCapabilities.touchEnabled = false;
 			}
 			else if (!('touchEnabled' in capabilities)) {
-				testedCapabilities.touchEnabled = function () {
+				testedCapabilities.touchEnabled = function ({ supported, unsupported, maybeSupported }: ProbeHelpers) {
 					return get('<!DOCTYPE html><button id="clicker">Click me</button>').then(function () {
 						return session.findById('clicker');
 					}).then(function (button) {
@@ -534,34 +1098,36 @@ export default class Server {
 			}
 
 			if (!('dynamicViewport' in capabilities)) {
-				testedCapabilities.dynamicViewport = session.getWindowSize().then(function (originalSize) {
-					return session.setWindowSize(originalSize.width, originalSize.height);
-				}).then(supported, unsupported);
+				testedCapabilities.dynamicViewport = function ({ supported, unsupported }: ProbeHelpers) {
+					return session.getWindowSize().then(function (originalSize) {
+						return session.setWindowSize(originalSize.width, originalSize.height);
+					}).then(supported, unsupported);
+				};
 			}
 
 			// At least Internet Explorer 11 and earlier do not allow data URIs to be used for navigation
-			testedCapabilities.supportsNavigationDataUris = function () {
+			testedCapabilities.supportsNavigationDataUris = function ({ unsupported }: ProbeHelpers) {
 				return get('<!DOCTYPE html><title>a</title>').then(function () {
 					return session.getPageTitle();
 				}).then(function (pageTitle) {
 					return pageTitle === 'a';
 				}).catch(unsupported);
 			};
-			testedCapabilities.supportsCssTransforms = function () {
-				// It is not possible to test this since the feature tests runs in quirks-mode on IE<10, but we
-				// know that IE9 supports CSS transforms
-				if (capabilities.browserName === 'internet explorer' && parseFloat(capabilities.browserVersion) === 9) {
-					return Task.resolve(true);
-				}
-
+			// It is not possible to test this since the feature tests runs in quirks-mode on IE<10, but we
+			// know that IE9 supports CSS transforms
+			if (capabilities.browserName === 'internet explorer' && parseFloat(capabilities.browserVersion) === 9) {
+				testedCapabilities.supportsCssTransforms = true;
+			}
+			else {
 				/*jshint maxlen:240 */
-				return get('<!DOCTYPE html><style>#a{width:8px;height:8px;-ms-transform:scale(0.5);-moz-transform:scale(0.5);-webkit-transform:scale(0.5);transform:scale(0.5);}</style><div id="a"></div>').then(function () {
-					return session.execute(/* istanbul ignore next */ function () {
+				testedCapabilities.supportsCssTransforms = new ScriptProbe(
+					'<!DOCTYPE html><style>#a{width:8px;height:8px;-ms-transform:scale(0.5);-moz-transform:scale(0.5);-webkit-transform:scale(0.5);transform:scale(0.5);}</style><div id="a"></div>',
+					/* istanbul ignore next */ function () {
 						const bbox = document.getElementById('a').getBoundingClientRect();
 						return bbox.right - bbox.left === 4;
-					});
-				}).catch(unsupported);
-			};
+					}
+				);
+			}
 
 			testedCapabilities.shortcutKey = (function () {
 				const platform = capabilities.platform.toLowerCase();
@@ -577,8 +1143,7 @@ export default class Server {
 				return keys.CONTROL;
 			})();
 
-			return Task.all(Object.keys(testedCapabilities).map(key => testedCapabilities[key]))
-				.then(() => testedCapabilities);
+			return Task.resolve(testedCapabilities);
 		}
 
 		function discoverDefects(): Task<Capabilities> {
@@ -620,15 +1185,18 @@ export default class Server {
 				capabilities.browserName === 'internet explorer' && parseFloat(capabilities.browserVersion) < 9;
 
 			// At least ChromeDriver 2.9 and MS Edge 10240 does not implement /element/active
-			testedCapabilities.brokenActiveElement = session.getActiveElement().then(works, function (error) {
-				return error.name === 'UnknownCommand';
-			});
+			testedCapabilities.brokenActiveElement = function ({ recordError, works }: ProbeHelpers) {
+				return session.getActiveElement().then(works, function (error) {
+					recordError(error);
+					return error.name === 'UnknownCommand';
+				});
+			};
 
 			// At least Selendroid 0.9.0 and MS Edge have broken cookie deletion.
 			if (capabilities.browserName === 'selendroid') {
 				// This test is very hard to get working properly in other environments so only test when Selendroid is
 				// the browser
-				testedCapabilities.brokenDeleteCookie = function () {
+				testedCapabilities.brokenDeleteCookie = function ({ recordError }: ProbeHelpers) {
 					return session.get('about:blank').then(function () {
 						return session.clearCookies();
 					}).then(function () {
@@ -639,7 +1207,8 @@ export default class Server {
 						return session.getCookies();
 					}).then(function (cookies) {
 						return cookies.length > 0;
-					}).catch(function () {
+					}).catch(function (error) {
+						recordError(error);
 						return true;
 					}).then(function (isBroken) {
 						return session.clearCookies().then(() => isBroken, () => isBroken);
@@ -662,22 +1231,26 @@ export default class Server {
 
 			// At least Selendroid 0.9.0 incorrectly returns HTML tag names in uppercase, which is a violation
 			// of the JsonWireProtocol spec
-			testedCapabilities.brokenHtmlTagName = session.findByTagName('html').then(function (element) {
-				return element.getTagName();
-			}).then(function (tagName) {
-				return tagName !== 'html';
-			}).catch(broken);
+			testedCapabilities.brokenHtmlTagName = function ({ broken }: ProbeHelpers) {
+				return session.findByTagName('html').then(function (element) {
+					return element.getTagName();
+				}).then(function (tagName) {
+					return tagName !== 'html';
+				}).catch(broken);
+			};
 
 			// At least ios-driver 0.6.6-SNAPSHOT incorrectly returns empty string instead of null for attributes
 			// that do not exist
-			testedCapabilities.brokenNullGetSpecAttribute = session.findByTagName('html').then(function (element) {
-				return element.getSpecAttribute('nonexisting');
-			}).then(function (value) {
-				return value !== null;
-			}).catch(broken);
+			testedCapabilities.brokenNullGetSpecAttribute = function ({ broken }: ProbeHelpers) {
+				return session.findByTagName('html').then(function (element) {
+					return element.getSpecAttribute('nonexisting');
+				}).then(function (value) {
+					return value !== null;
+				}).catch(broken);
+			};
 
 			// At least MS Edge 10240 doesn't properly deserialize web elements passed as `execute` arguments
-			testedCapabilities.brokenElementSerialization = function () {
+			testedCapabilities.brokenElementSerialization = function ({ broken }: ProbeHelpers) {
 				return get('<!DOCTYPE html><div id="a"></div>').then(function () {
 					return session.findById('a');
 				}).then(function (element) {
@@ -691,14 +1264,14 @@ export default class Server {
 
 			// At least Selendroid 0.16.0 incorrectly returns `undefined` instead of `null` when an undefined
 			// value is returned by an `execute` call
-			testedCapabilities.brokenExecuteUndefinedReturn = session.execute(
-				'return undefined;'
-			).then(function (value) {
-				return value !== null;
-			}, broken);
+			testedCapabilities.brokenExecuteUndefinedReturn = function ({ broken }: ProbeHelpers) {
+				return session.execute('return undefined;').then(function (value) {
+					return value !== null;
+				}, broken);
+			};
 
 			// At least Selendroid 0.9.0 always returns invalid element handles from JavaScript
-			testedCapabilities.brokenExecuteElementReturn = function () {
+			testedCapabilities.brokenExecuteElementReturn = function ({ broken, works }: ProbeHelpers) {
 				return get('<!DOCTYPE html><div id="a"></div>').then(function () {
 					return session.execute<Element>('return document.getElementById("a");');
 				})
@@ -706,8 +1279,21 @@ export default class Server {
 					.then(works, broken);
 			};
 
+			// Servers that only implement the JsonWireProtocol do not support taking screenshots of single elements.
+			// The element is empty, so only an unknown command, and not a failure to capture it, marks the command as
+			// broken.
+			testedCapabilities.brokenElementScreenshot = function ({ broken, works }: ProbeHelpers) {
+				return get('<!DOCTYPE html><div id="a"></div>').then(function () {
+					return session.findById('a');
+				}).then(function (element) {
+					return session.serverGet('element/$0/screenshot', null, [ element.elementId ]);
+				}).then(works, function (error: Error) {
+					return error.name === 'UnknownCommand' ? broken(error) : works(error);
+				});
+			};
+
 			// At least Selendroid 0.9.0 treats fully transparent elements as displayed, but all others do not
-			testedCapabilities.brokenElementDisplayedOpacity = function () {
+			testedCapabilities.brokenElementDisplayedOpacity = function ({ broken, works }: ProbeHelpers) {
 				return get('<!DOCTYPE html><div id="a" style="opacity: .1;">a</div>').then(function () {
 					// IE<9 do not support CSS opacity so should not be involved in this test
 					return session.execute('var o = document.getElementById("a").style.opacity; return o && o.charAt(0) === "0";');
@@ -728,7 +1314,7 @@ export default class Server {
 			};
 
 			// At least ChromeDriver 2.9 treats elements that are offscreen as displayed, but others do not
-			testedCapabilities.brokenElementDisplayedOffscreen = function () {
+			testedCapabilities.brokenElementDisplayedOffscreen = function ({ broken }: ProbeHelpers) {
 				const pageText = '<!DOCTYPE html><div id="a" style="left: 0; position: absolute; top: -1000px;">a</div>';
 				return get(pageText).then(function () {
 					return session.findById('a');
@@ -765,7 +1351,7 @@ export default class Server {
 			// At least MS Edge Driver 14316 doesn't normalize whitespace properly when retrieving text. Text may
 			// contain "\r\n" pairs rather than "\n", and there may be extraneous whitespace adjacent to "\r\n" pairs
 			// and at the start and end of the text.
-			testedCapabilities.brokenWhitespaceNormalization = function () {
+			testedCapabilities.brokenWhitespaceNormalization = function ({ broken, works }: ProbeHelpers) {
 				return get('<!DOCTYPE html><div id="d">This is\n<br>a test\n</div>').then(function () {
 					return session.findById('d')
 						.then(function (element) {
@@ -780,7 +1366,7 @@ export default class Server {
 
 			// At least geckodriver 0.15.0 and Firefox 51.0.1 don't properly normalize link text when using the 'link
 			// text' locator strategy.
-			testedCapabilities.brokenLinkTextLocator = function () {
+			testedCapabilities.brokenLinkTextLocator = function ({ broken, works }: ProbeHelpers) {
 				return get('<!DOCTYPE html><a id="d">What a cute<span style="display:none">, yellow</span> backpack</a><a id="e">What a cute, yellow backpack</a>').then(function () {
 					return session.findByLinkText('What a cute, yellow backpack')
 						.then(function (element) {
@@ -794,7 +1380,7 @@ export default class Server {
 			};
 
 			// At least MS Edge Driver 14316 doesn't return elements' computed styles
-			testedCapabilities.brokenComputedStyles = function () {
+			testedCapabilities.brokenComputedStyles = function ({ broken, works }: ProbeHelpers) {
 				const pageText = '<!DOCTYPE html><style>a { background: purple }</style><a id="a1">foo</a>';
 				return get(pageText).then(function () {
 					return session.findById('a1');
@@ -810,7 +1396,7 @@ export default class Server {
 			// IE10+ and Safari will hang during this check, although option selection does work with it
 			if (!isInternetExplorer(capabilities, 10) && !isMacSafari(capabilities)) {
 				// At least MS Edge Driver 14316 doesn't allow selection option elements to be clicked.
-				testedCapabilities.brokenOptionSelect = function () {
+				testedCapabilities.brokenOptionSelect = function ({ broken, works }: ProbeHelpers) {
 					return get(
 						'<!DOCTYPE html><select id="d"><option id="o1" value="foo">foo</option>' +
 						'<option id="o2" value="bar" selected>bar</option></select>'
@@ -827,7 +1413,9 @@ export default class Server {
 			}
 
 			// At least MS Edge driver 10240 doesn't support getting the page source
-			testedCapabilities.brokenPageSource = session.getPageSource().then(works, broken);
+			testedCapabilities.brokenPageSource = function ({ broken, works }: ProbeHelpers) {
+				return session.getPageSource().then(works, broken);
+			};
 
 			// IE11 will hang during this check if nativeEvents are enabled
 			if (capabilities.browserName !== 'internet explorer' && capabilities.browserVersion !== '11') {
@@ -838,7 +1426,7 @@ export default class Server {
 				// the form button to be submitted along with the rest of the form; it seems most likely that tests
 				// do want the specified button to act as though someone clicked it when it is submitted, so the
 				// behaviour needs to be normalised
-				testedCapabilities.brokenSubmitElement = function () {
+				testedCapabilities.brokenSubmitElement = function ({ broken }: ProbeHelpers) {
 					/*jshint maxlen:200 */
 					return get(
 						'<!DOCTYPE html><form method="get" action="about:blank">' +
@@ -863,7 +1451,45 @@ export default class Server {
 			}
 
 			// At least MS Edge driver 10240 doesn't support window sizing commands
-			testedCapabilities.brokenWindowSize = session.getWindowSize().then(works, broken);
+			testedCapabilities.brokenWindowSize = function ({ broken, works }: ProbeHelpers) {
+				return session.getWindowSize().then(works, broken);
+			};
+
+			// Servers that only implement the JsonWireProtocol do not support the W3C window rect command
+			testedCapabilities.brokenWindowRect = function ({ broken, works }: ProbeHelpers) {
+				return session.serverGet('window/rect').then(works, broken);
+			};
+
+			// Servers that only implement the JsonWireProtocol do not support the W3C fullscreen command; the window is
+			// restored to its original position and size afterwards
+			testedCapabilities.brokenFullscreenWindow = function ({ broken, works }: ProbeHelpers) {
+				return session.getWindowRect().then(function (rect) {
+					return session.serverPost('window/fullscreen').then(function () {
+						return session.setWindowRect(rect).catch(works);
+					});
+				}).then(works, broken);
+			};
+
+			// Servers that only implement the JsonWireProtocol do not support the W3C new window command. The command
+			// is sent with an invalid window type, so servers that support it reject the request instead of opening a
+			// window; any window that is opened anyway is closed again.
+			testedCapabilities.brokenNewWindow = function ({ broken, works }: ProbeHelpers) {
+				return session.serverPost<{ handle: string }>('window/new', { type: 42 }).then(function (result) {
+					if (!result || !result.handle) {
+						return works();
+					}
+
+					return session.getCurrentWindowHandle().then(function (handle) {
+						return session.switchToWindow(result.handle).then(function () {
+							return session.closeCurrentWindow();
+						}).then(function () {
+							return session.switchToWindow(handle);
+						});
+					}).then(works, works);
+				}, function (error: Error) {
+					return error.name === 'UnknownCommand' ? broken(error) : works(error);
+				});
+			};
 
 			// At least Selendroid 0.9.0 has a bug where it catastrophically fails to retrieve available types;
 			// they have tried to hardcode the available log types in this version so we can just return the
@@ -874,17 +1500,22 @@ export default class Server {
 				testedCapabilities.fixedLogTypes = [];
 			}
 			else {
-				testedCapabilities.fixedLogTypes = session.getAvailableLogTypes().then(unsupported, function (error: LeadfootError) {
-					if (capabilities.browserName === 'selendroid' && !error.response.text.length) {
-						return ['logcat'];
-					}
+				testedCapabilities.fixedLogTypes = function ({ recordError, unsupported }: ProbeHelpers) {
+					return session.getAvailableLogTypes().then(unsupported, function (error: LeadfootError) {
+						recordError(error);
+						if (capabilities.browserName === 'selendroid' && !error.response.text.length) {
+							return ['logcat'];
+						}
 
-					return [];
-				});
+						return [];
+					});
+				};
 			}
 
 			// At least Microsoft Edge 10240 doesn't support timeout values of 0.
-			testedCapabilities.brokenZeroTimeout = session.setTimeout('implicit', 0).then(works, broken);
+			testedCapabilities.brokenZeroTimeout = function ({ broken, works }: ProbeHelpers) {
+				return session.setTimeout('implicit', 0).then(works, broken);
+			};
 
 			if (
 				// At least ios-driver 0.6.6-SNAPSHOT April 2014 corrupts its internal state when performing window
@@ -897,9 +1528,11 @@ export default class Server {
 				testedCapabilities.brokenWindowSwitch = true;
 			}
 			else {
-				testedCapabilities.brokenWindowSwitch = session.getCurrentWindowHandle().then(function (handle) {
-					return session.switchToWindow(handle);
-				}).then(works, broken);
+				testedCapabilities.brokenWindowSwitch = function ({ broken, works }: ProbeHelpers) {
+					return session.getCurrentWindowHandle().then(function (handle) {
+						return session.switchToWindow(handle);
+					}).then(works, broken);
+				};
 			}
 
 			// At least selendroid 0.12.0-SNAPSHOT doesn't support switching to the parent frame
@@ -907,14 +1540,16 @@ export default class Server {
 				testedCapabilities.brokenParentFrameSwitch = true;
 			}
 			else {
-				testedCapabilities.brokenParentFrameSwitch = session.switchToParentFrame().then(works, broken);
+				testedCapabilities.brokenParentFrameSwitch = function ({ broken, works }: ProbeHelpers) {
+					return session.switchToParentFrame().then(works, broken);
+				};
 			}
 
 			const scrollTestUrl = '<!DOCTYPE html><div id="a" style="margin: 3000px;"></div>';
 
 			// ios-driver 0.6.6-SNAPSHOT April 2014 calculates position based on a bogus origin and does not
 			// account for scrolling
-			testedCapabilities.brokenElementPosition = function () {
+			testedCapabilities.brokenElementPosition = function ({ broken }: ProbeHelpers) {
 				return get(scrollTestUrl).then(function () {
 					return session.findById('a');
 				}).then(function (element) {
@@ -925,7 +1560,7 @@ export default class Server {
 			};
 
 			// At least ios-driver 0.6.6-SNAPSHOT April 2014 will never complete a refresh call
-			testedCapabilities.brokenRefresh = function () {
+			testedCapabilities.brokenRefresh = function ({ broken }: ProbeHelpers) {
 				return session.get('about:blank?1').then(function () {
 					let timer: any;
 					let refresh: Task<any>;
@@ -958,7 +1593,7 @@ export default class Server {
 			else if (capabilities.mouseEnabled) {
 				// At least IE 10 and 11 on SauceLabs don't fire native mouse events consistently even though they
 				// support moveMouseTo
-				testedCapabilities.brokenMouseEvents = function () {
+				testedCapabilities.brokenMouseEvents = function ({ broken, works }: ProbeHelpers) {
 					return get(
 						'<!DOCTYPE html><div id="foo">foo</div>' +
 						'<script>window.counter = 0; var d = document; d.onmousemove = function () { window.counter++; };</script>'
@@ -980,7 +1615,7 @@ export default class Server {
 
 				// At least ChromeDriver 2.12 through 2.19 will throw an error if mouse movement relative to the <html>
 				// element is attempted
-				testedCapabilities.brokenHtmlMouseMove = function () {
+				testedCapabilities.brokenHtmlMouseMove = function ({ broken, works }: ProbeHelpers) {
 					return get('<!DOCTYPE html><html></html>').then(function () {
 						return session.findByTagName('html').then(function (element) {
 							return session.moveMouseTo(element, 0, 0);
@@ -990,7 +1625,7 @@ export default class Server {
 
 				// At least ChromeDriver 2.9.248307 does not correctly emit the entire sequence of events that would
 				// normally occur during a double-click
-				testedCapabilities.brokenDoubleClick = function retry(): Task<any> {
+				testedCapabilities.brokenDoubleClick = function retry(helpers: ProbeHelpers): Task<any> {
 					// InternetExplorerDriver is not buggy, but IE9 in quirks-mode is; since we cannot do feature
 					// tests in standards-mode in IE<10, force the value to false since it is not broken in this
 					// browser
@@ -1012,29 +1647,34 @@ export default class Server {
 						// InternetExplorerDriver 2.41.0 has a race condition that makes this test sometimes fail
 						/* istanbul ignore if: inconsistent race condition */
 						if (counter === 0) {
-							return retry();
+							return retry(helpers);
 						}
 
 						return counter !== 6;
-					}).catch(broken);
+					}).catch(helpers.broken);
 				};
 			}
 
 			if (capabilities.touchEnabled) {
 				// At least Selendroid 0.9.0 fails to perform a long tap due to an INJECT_EVENTS permission failure
-				testedCapabilities.brokenLongTap = session.findByTagName('body').then(function (element) {
-					return session.longTap(element);
-				}).then(works, broken);
+				testedCapabilities.brokenLongTap = function ({ broken, works }: ProbeHelpers) {
+					return session.findByTagName('body').then(function (element) {
+						return session.longTap(element);
+					}).then(works, broken);
+				};
 
 				// At least ios-driver 0.6.6-SNAPSHOT April 2014 claims to support touch press/move/release but
 				// actually fails when you try to use the commands
-				testedCapabilities.brokenMoveFinger = session.pressFinger(0, 0).then(works, function (error) {
-					return error.name === 'UnknownCommand' || error.message.indexOf('need to specify the JS') > -1;
-				});
+				testedCapabilities.brokenMoveFinger = function ({ recordError, works }: ProbeHelpers) {
+					return session.pressFinger(0, 0).then(works, function (error) {
+						recordError(error);
+						return error.name === 'UnknownCommand' || error.message.indexOf('need to specify the JS') > -1;
+					});
+				};
 
 				// Touch scroll in ios-driver 0.6.6-SNAPSHOT is broken, does not scroll at all;
 				// in selendroid 0.9.0 it ignores the element argument
-				testedCapabilities.brokenTouchScroll = function () {
+				testedCapabilities.brokenTouchScroll = function ({ broken }: ProbeHelpers) {
 					return get(scrollTestUrl).then(function () {
 						return session.touchScroll(0, 20);
 					}).then(function () {
@@ -1055,7 +1695,7 @@ export default class Server {
 
 				// Touch flick in ios-driver 0.6.6-SNAPSHOT is broken, does not scroll at all except in very
 				// broken ways if very tiny speeds are provided and the flick goes in the wrong direction
-				testedCapabilities.brokenFlickFinger = function () {
+				testedCapabilities.brokenFlickFinger = function ({ broken }: ProbeHelpers) {
 					return get(scrollTestUrl).then(function () {
 						return session.flickFinger(0, 400);
 					}).then(function () {
@@ -1066,7 +1706,7 @@ export default class Server {
 			}
 
 			if (capabilities.supportsCssTransforms) {
-				testedCapabilities.brokenCssTransformedSize = function () {
+				testedCapabilities.brokenCssTransformedSize = function ({ broken }: ProbeHelpers) {
 					/*jshint maxlen:240 */
 					return get('<!DOCTYPE html><style>#a{width:8px;height:8px;-ms-transform:scale(0.5);-moz-transform:scale(0.5);-webkit-transform:scale(0.5);transform:scale(0.5);}</style><div id="a"></div>').then(function () {
 						return session.execute<Element>('return document.getElementById("a");').then(function (element) {
@@ -1078,8 +1718,38 @@ export default class Server {
 				};
 			}
 
-			return Task.all(Object.keys(testedCapabilities).map(key => testedCapabilities[key]))
-				.then(() => testedCapabilities);
+			return Task.resolve(testedCapabilities);
+		}
+
+		const server = this;
+
+		function discoverPipelining() {
+			const testedCapabilities: any = {};
+
+			// Parallel requests are never sent to a server under a serial pipelining policy, so there is no need to find
+			// out whether it supports them (and to risk the dropped connections of servers that do not)
+			const policy = session.pipelining != null ? session.pipelining : server.pipelining;
+			if (policy == null || policy === 'serial' || Number(policy) <= 1) {
+				return Task.resolve(testedCapabilities);
+			}
+
+			// At least ChromeDriver 2.19 will just hard close connections if parallel requests are made to the server.
+			// The requests are sent directly to the server rather than through the session, since the session sends
+			// requests one at a time until this capability is known, so this feature test is run on its own before
+			// any others.
+			testedCapabilities.supportsConcurrentRequests = function ({ unsupported }: ProbeHelpers) {
+				const path = 'session/$0/' + getEndpoint(session.dialect, 'post', 'execute').path;
+
+				return Task.all([ 0, 1, 2, 3 ].map(function (value) {
+					return server.post<any>(path, { script: 'return arguments[0];', args: [ value ] },
+						[ session.sessionId ]);
+				})).then(function (responses) {
+					// Each response needs to match its own request
+					return responses.every((response, index) => response.value === index);
+				}).catch(unsupported);
+			};
+
+			return Task.resolve(testedCapabilities);
 		}
 
 		function discoverServerFeatures() {
@@ -1087,7 +1757,7 @@ export default class Server {
 
 			// Check that the remote server will accept file uploads. There is a secondary test in discoverDefects that
 			// checks whether the server allows typing into file inputs.
-			testedCapabilities.remoteFiles = function () {
+			testedCapabilities.remoteFiles = function ({ unsupported }: ProbeHelpers) {
 				// TODO: _post probably shouldn't be private
 				return session.serverPost<string>('file', {
 					file: 'UEsDBAoAAAAAAD0etkYAAAAAAAAAAAAAAAAIABwAdGVzdC50eHRVVAkAA2WnXlVlp15VdXgLAAEE8gMAAATyAwAAUEsBAh4DCgAAAAAAPR62RgAAAAAAAAAAAAAAAAgAGAAAAAAAAAAAAKSBAAAAAHRlc3QudHh0VVQFAANlp15VdXgLAAEE8gMAAATyAwAAUEsFBgAAAAABAAEATgAAAEIAAAAAAA=='
@@ -1099,9 +1769,17 @@ export default class Server {
 			// The window sizing commands in the W3C standard don't use window handles, but they do under the
 			// JsonWireProtocol. By default, Session assumes handles are used. When the result of this check is added to
 			// capabilities, Session will take it into account.
-			testedCapabilities.implicitWindowHandles = session.getWindowSize().then(unsupported, function (error) {
-				return error.name === 'UnknownCommand';
-			});
+			if (capabilities.isWebDriver) {
+				testedCapabilities.implicitWindowHandles = true;
+			}
+			else {
+				testedCapabilities.implicitWindowHandles = function ({ recordError, unsupported }: ProbeHelpers) {
+					return session.getWindowSize().then(unsupported, function (error) {
+						recordError(error);
+						return error.name === 'UnknownCommand';
+					});
+				};
+			}
 
 			// At least SafariDriver 2.41.0 fails to allow stand-alone feature testing because it does not inject user
 			// scripts for URLs that are not http/https
@@ -1112,7 +1790,7 @@ export default class Server {
 					testedCapabilities.returnsFromClickImmediately = true;
 				}
 				else {
-					testedCapabilities.returnsFromClickImmediately = function () {
+					testedCapabilities.returnsFromClickImmediately = function ({ broken, works }: ProbeHelpers) {
 						function assertSelected(expected: any) {
 							return function (actual: any) {
 								if (expected !== actual) {
@@ -1149,59 +1827,182 @@ export default class Server {
 				testedCapabilities.supportsKeysCommand = false;
 			}
 			else {
-				testedCapabilities.supportsKeysCommand = session.serverPost('keys', { value: ['a'] }).then(supported,
-					unsupported);
+				testedCapabilities.supportsKeysCommand = function ({ supported, unsupported }: ProbeHelpers) {
+					return session.serverPost('keys', { value: ['a'] }).then(supported, unsupported);
+				};
 			}
 
-			return Task.all(Object.keys(testedCapabilities).map(key => testedCapabilities[key]))
-				.then(() => testedCapabilities);
+			return Task.resolve(testedCapabilities);
+		}
+
+		const featureTests = this._featureTests;
+
+		function discoverCustomFeatures() {
+			const testedCapabilities: any = {};
+
+			Object.keys(featureTests).forEach(function (name) {
+				const test = featureTests[name];
+
+				if (test.when && !test.when(capabilities)) {
+					return;
+				}
+
+				if (test.script) {
+					testedCapabilities[name] = new ScriptProbe(test.page || '<!DOCTYPE html>', test.script,
+						'failureValue' in test ? test.failureValue : false);
+					return;
+				}
+
+				customRequirements[name] = test.requirements || exclusiveRequirements;
+				testedCapabilities[name] = function ({ recordError }: ProbeHelpers) {
+					const loaded: Task<any> = test.page ? get(test.page) : Task.resolve();
+					return loaded.then(function () {
+						return test.probe(session, capabilities);
+					}).catch(function (error) {
+						recordError(error);
+						return 'failureValue' in test ? test.failureValue : false;
+					});
+				};
+			});
+
+			return Task.resolve(testedCapabilities);
+		}
+
+		function setFilled() {
+			Object.defineProperty(capabilities, '_filled', {
+				value: true,
+				configurable: true
+			});
 		}
 
 		if (capabilities._filled) {
 			return Task.resolve(session);
 		}
 
+		applyQuirkProfile(capabilities, quirks);
+
+		if (report && quirks && quirks.capabilities) {
+			Object.keys(quirks.capabilities).forEach(key => {
+				report.capabilities[key] = { value: (<any> quirks.capabilities)[key], tested: false, duration: 0 };
+			});
+		}
+
+		const cachedCapabilities = cache && cache.get(capabilities);
+		if (cachedCapabilities) {
+			for (let key in cachedCapabilities) {
+				(<any> capabilities)[key] = (<any> cachedCapabilities)[key];
+			}
+			applyQuirkProfile(capabilities, quirks);
+			setFilled();
+			return Task.resolve(session);
+		}
+
 		// At least geckodriver 0.11 and Firefox 49+ may hang when getting 'about:blank' in the first request
 		const promise: Task<Session | void> = isGeckodriver(capabilities) ? Task.resolve(session) : session.get('about:blank');
 
 		return promise
+			.then(discoverPipelining)
+			.then(addCapabilities)
 			.then(discoverServerFeatures)
 			.then(addCapabilities)
 			.then(discoverFeatures)
 			.then(addCapabilities)
 			.then(function () {
+				loadedPage = null;
 				return session.get('about:blank');
 			})
 			.then(discoverDefects)
 			.then(addCapabilities)
+			.then(discoverCustomFeatures)
+			.then(addCapabilities)
 			.then(() => {
-				Object.defineProperty(capabilities, '_filled', {
-					value: true,
-					configurable: true
-				});
+				setFilled();
+
+				// Capabilities detected under a quirk profile are incomplete, since some feature tests were not run
+				if (cache && !quirks) {
+					cache.set(capabilities._reported, detectedCapabilities);
+				}
+
 				return session.get('about:blank').then(() => session, () => session);
 			});
 	}
 
+	/**
+	 * Detects the capabilities of an existing session again, discarding any previously detected or cached
+	 * capabilities for its environment. This is useful after the remote environment has been changed in a way that
+	 * is not reflected in its reported capabilities.
+	 *
+	 * @param session The session to test.
+	 */
+	refreshCapabilities(session: Session): Task<Session> {
+		this._resetCapabilities(session);
+		return this._fillCapabilities(session).then(() => session);
+	}
+
+	/**
+	 * Detects the capabilities of an existing session again, like [[Server.refreshCapabilities]], and reports how
+	 * each capability was determined. The report can be compared to the report for another environment with
+	 * [[diffCapabilityReports]].
+	 *
+	 * @param session The session to test.
+	 */
+	probeCapabilities(session: Session): Task<CapabilityReport> {
+		this._resetCapabilities(session);
+
+		const report: CapabilityReport = {
+			environment: { ...session.capabilities },
+			capabilities: {}
+		};
+
+		return this._fillCapabilities(session, report).then(() => report);
+	}
+
+	/**
+	 * Restores the capabilities of a session to the capabilities originally reported by the remote server and
+	 * removes any cached capabilities for its environment.
+	 */
+	private _resetCapabilities(session: Session) {
+		const capabilities = session.capabilities;
+		const reported = capabilities._reported;
+
+		if (reported) {
+			Object.keys(capabilities).forEach(key => {
+				delete (<any> capabilities)[key];
+			});
+			for (let key in reported) {
+				(<any> capabilities)[key] = (<any> reported)[key];
+			}
+		}
+
+		delete capabilities._filled;
+
+		if (this.capabilityCache) {
+			this.capabilityCache.invalidate(capabilities);
+		}
+	}
+
 	/**
 	 * Gets a list of all currently active remote control sessions on this server.
+	 *
+	 * ```js
+	 * // Quit sessions that have been running for more than an hour
+	 * server.getSessions().then(function (sessions) {
+	 *     return Promise.all(sessions.filter(function (session) {
+	 *         return session.startTime && Date.now() - session.startTime.getTime() > 3600000;
+	 *     }).map(function (session) {
+	 *         return session.delete();
+	 *     }));
+	 * });
+	 * ```
 	 */
-	getSessions(): Task<Session[]> {
-		return this.get('sessions').then(function (sessions: any) {
+	getSessions(): Task<SessionInfo[]> {
+		return this.get('sessions').then((sessions: any) => {
 			// At least BrowserStack is now returning an array for the sessions response
 			if (sessions && !Array.isArray(sessions)) {
 				sessions = returnValue(sessions);
 			}
 
-			// At least ChromeDriver 2.19 uses the wrong keys
-			// https://code.google.com/p/chromedriver/issues/detail?id=1229
-			sessions.forEach(function (session: any) {
-				if (session.sessionId && !session.id) {
-					session.id = session.sessionId;
-				}
-			});
-
-			return sessions;
+			return (sessions || []).map((session: any) => new SessionInfo(this, session));
 		});
 	}
 
@@ -1215,17 +2016,349 @@ export default class Server {
 	}
 
 	/**
-	 * Terminates a session on the server.
+	 * Terminates a session on the server. If the session could not be terminated, it is still tracked, so that
+	 * [[Server.quitAll]] can try to quit it again.
 	 */
 	deleteSession(sessionId: string) {
-		return this.delete<void>('session/$0', null, [sessionId]).then(noop);
+		const untrack = () => {
+			this._trackedSessions = this._trackedSessions.filter(session => session.sessionId !== sessionId);
+		};
+
+		return this.delete<void>('session/$0', null, [sessionId]).then(untrack, error => {
+			// A session that no longer exists on the remote server will never need to be quit
+			if (error.name === 'NoSuchDriver') {
+				untrack();
+			}
+
+			throw error;
+		});
+	}
+
+	/**
+	 * The sessions created by this server with [[Server.createSession]] that have not been quit yet.
+	 */
+	get trackedSessions(): Session[] {
+		return this._trackedSessions.slice();
+	}
+
+	/**
+	 * Quits all sessions created by this server that have not been quit yet. Errors from individual sessions are
+	 * ignored.
+	 */
+	quitAll(): Task<void> {
+		return Task.all(this._trackedSessions.map(session => session.quit().catch(noop))).then(noop);
+	}
+
+	/**
+	 * Quits all sessions created by this server when the process exits normally or is interrupted by SIGINT or
+	 * SIGTERM, so that sessions are not left running on the remote server until it times them out. Once the sessions
+	 * have been quit, or the timeout has elapsed, the process exits the same way it would have without the hook.
+	 *
+	 * A normal exit is detected with the `beforeExit` event of the process, which is not emitted when the process is
+	 * ended by an explicit call to `process.exit()`; call [[Server.quitAll]] before exiting in that case. Since quitting
+	 * sessions schedules more work, `beforeExit` is emitted again once they have been quit; the hook stays registered
+	 * until the process really exits, so sessions created in the meantime are still protected.
+	 *
+	 * Uncaught exceptions are only handled if the `uncaughtException` option is set, since adding an
+	 * `uncaughtException` listener changes how the process crashes. Once the sessions have been quit, the error is
+	 * passed to the callback given as the option, or, if the option is `true`, thrown again so that the process crashes
+	 * as it would have without the hook. Logging the error and exiting the process are left to the application.
+	 *
+	 * @param options Options for the hook, or the maximum time to spend quitting sessions, in milliseconds.
+	 * @returns A handle that can be used to remove the hook.
+	 */
+	quitOnExit(options: QuitOnExitOptions | number = {}): Handle {
+		if (typeof options === 'number') {
+			options = { timeout: options };
+		}
+		const { timeout = 10000, uncaughtException = false } = options;
+
+		const quit = () => {
+			return new Task<void>(resolve => {
+				const timer = setTimeout(resolve, timeout);
+				this.quitAll().finally(() => {
+					clearTimeout(timer);
+					resolve();
+				});
+			});
+		};
+
+		const onSignal = (signal: string) => {
+			handle.destroy();
+			quit().then(() => {
+				// The hook has been removed, so the signal now has its default behaviour (or the behaviour of any
+				// other listener)
+				process.kill(process.pid, signal);
+			});
+		};
+
+		const onUncaughtException = (error: Error) => {
+			handle.destroy();
+			quit().then(() => {
+				if (typeof uncaughtException === 'function') {
+					uncaughtException(error);
+				}
+				else {
+					// The hook has been removed, so throwing the error again crashes the process as it would have
+					// without the hook (or hands the error to any other listener)
+					setTimeout(() => {
+						throw error;
+					});
+				}
+			});
+		};
+
+		// `exit` listeners cannot perform asynchronous work, so sessions are quit once the event loop is empty instead
+		let quitting: Task<void> = null;
+		const onBeforeExit = () => {
+			if (!quitting && this._trackedSessions.length) {
+				quitting = quit().finally(() => {
+					quitting = null;
+				});
+			}
+		};
+
+		process.on('SIGINT', onSignal);
+		process.on('SIGTERM', onSignal);
+		process.on('beforeExit', onBeforeExit);
+		if (uncaughtException) {
+			process.on('uncaughtException', onUncaughtException);
+		}
+
+		const handle = {
+			destroy() {
+				this.destroy = noop;
+				process.removeListener('SIGINT', onSignal);
+				process.removeListener('SIGTERM', onSignal);
+				process.removeListener('beforeExit', onBeforeExit);
+				process.removeListener('uncaughtException', onUncaughtException);
+			}
+		};
+
+		return handle;
 	}
 }
 
 type Url = urlUtil.Url;
 
+/**
+ * Capability names defined by the W3C WebDriver standard. Any other capability must be namespaced with a vendor
+ * prefix (e.g. `goog:chromeOptions`) or it will be rejected by the remote end.
+ */
+const w3cCapabilityNames = {
+	acceptInsecureCerts: true,
+	browserName: true,
+	browserVersion: true,
+	pageLoadStrategy: true,
+	platformName: true,
+	proxy: true,
+	setWindowRect: true,
+	timeouts: true,
+	unhandledPromptBehavior: true
+};
+
 export type Method = 'post' | 'get' | 'delete';
 
+/**
+ * How many requests a session may send to the remote server at once: one at a time (`serial`), as many as are made
+ * (`parallel`), or up to a given number.
+ */
+export type PipeliningPolicy = 'serial' | 'parallel' | number;
+
+/**
+ * An outgoing request to a remote server, as seen by [[Middleware]].
+ */
+export interface ServerRequest {
+	/** The HTTP method of the request, in uppercase. */
+	method: string;
+
+	/** The fully qualified URL of the request. */
+	url: string;
+
+	/**
+	 * Headers to send with the request. The Content-Type and Content-Length headers are generated automatically when
+	 * the request is sent.
+	 */
+	headers: { [name: string]: string };
+
+	/** The request data, which will be serialised to JSON when the request is sent. */
+	data: any;
+
+	/** Whether or not the request can safely be retried if it fails. */
+	safe?: boolean;
+}
+
+/**
+ * Options for a single request to a remote server.
+ */
+export interface SendOptions {
+	/**
+	 * Whether or not the request can safely be sent more than once. Requests other than GET requests are only
+	 * retried by the default [[RetryPolicy]] if they are marked as safe.
+	 */
+	safe?: boolean;
+
+	/**
+	 * Determines whether or not the request can be retried after it fails with the given error, instead of the
+	 * `retryable` function of [[Server.retryPolicy]]. Requests are still only retried if a retry policy is set.
+	 */
+	retryable?(error: any): boolean;
+}
+
+/**
+ * The event emitted by a [[Server]] before a failed request is retried.
+ */
+export interface RetryEvent extends EventTargettedObject<Server> {
+	type: 'retry';
+
+	/** The number of the attempt that failed, starting at 1. */
+	attempt: number;
+
+	/** The delay before the next attempt, in milliseconds. */
+	delay: number;
+
+	/** The error that caused the attempt to fail. */
+	error: any;
+
+	/** The request that failed. */
+	request: ServerRequest;
+}
+
+/**
+ * An incoming response from a remote server, as seen by [[Middleware]]. Responses are received by middleware after
+ * any redirects have been followed, but before errors have been normalised, so changes to the status or data of a
+ * response affect how it is interpreted by Leadfoot.
+ */
+export interface ServerResponse {
+	/** The HTTP status of the response. */
+	status: number;
+
+	/** The headers of the response. */
+	headers: Headers;
+
+	/** The raw response body. */
+	text: string;
+
+	/** The parsed response body, if the response was JSON. */
+	data: any;
+
+	/** The underlying HTTP response. */
+	response: Response;
+}
+
+/**
+ * A function that intercepts requests to a remote server. A middleware receives the outgoing request and a `next`
+ * function that passes the request (or a replacement request) to the next middleware in the chain, and eventually to
+ * the remote server. It must return the response, or a Task that resolves to the response, that should be passed
+ * back up the chain.
+ *
+ * ```js
+ * server.use(function (request, next) {
+ *     request.headers['X-Test-Id'] = currentTestId;
+ *     return next(request);
+ * });
+ * ```
+ */
+export interface Middleware {
+	(request: ServerRequest, next: (request?: ServerRequest) => Task<ServerResponse>): ServerResponse |
+		Task<ServerResponse>;
+}
+
+/**
+ * Options for [[Server.attachSession]].
+ */
+export interface AttachOptions {
+	/**
+	 * Capabilities that were previously detected for the session, like the `capabilities` of the Session object that
+	 * created it. If provided, the capabilities of the session are not detected again.
+	 */
+	capabilities?: Capabilities;
+
+	/**
+	 * The wire protocol dialect spoken by the remote server. Defaults to the dialect recorded in the restored
+	 * `capabilities`, or to the dialect detected from the responses of the remote server.
+	 */
+	dialect?: Dialect;
+
+	/**
+	 * Whether or not to detect the capabilities of the session if they are not restored. Defaults to
+	 * [[Server.fixSessionCapabilities]].
+	 */
+	fixSessionCapabilities?: boolean;
+
+	/**
+	 * The quirk profile of the session. Defaults to [[Server.quirks]].
+	 */
+	quirks?: string | QuirkProfile;
+
+	/**
+	 * The constructor used to create the Session object. Defaults to [[Server.sessionConstructor]].
+	 */
+	sessionConstructor?: typeof Session;
+}
+
+/**
+ * Options for [[Server.quitOnExit]].
+ */
+export interface QuitOnExitOptions {
+	/**
+	 * The maximum time to spend quitting sessions, in milliseconds. Defaults to 10000.
+	 */
+	timeout?: number;
+
+	/**
+	 * Whether or not to quit sessions when the process has an uncaught exception. If a function is provided, it is
+	 * called with the error once the sessions have been quit; if `true`, the error is thrown again. Defaults to false.
+	 */
+	uncaughtException?: boolean | ((error: Error) => void);
+}
+
+/**
+ * A custom feature test added with [[Server.addFeatureTest]].
+ */
+export interface FeatureTest {
+	/**
+	 * An HTML document that is loaded before the probe is run. If no page is provided, the probe runs against
+	 * whatever page was loaded by the previous feature test.
+	 */
+	page?: string;
+
+	/**
+	 * The value of the capability if loading the page or running the probe fails. Defaults to false.
+	 */
+	failureValue?: any;
+
+	/**
+	 * The parts of the remote environment used by the probe, which determine which other feature tests it may run
+	 * alongside. By default, custom feature tests do not run at the same time as any feature test that uses the page
+	 * or the window.
+	 */
+	requirements?: ProbeRequirements;
+
+	/**
+	 * A script that detects the value of the capability when run against `page`, as a function or as the body of a
+	 * function. The return value of the script is used as the value of the capability. Scripts that use the same page
+	 * are run with a single `execute` call, so a script should be used instead of `probe` whenever possible.
+	 */
+	script?: Function | string;
+
+	/**
+	 * Determines whether or not the test should run in an environment. If not provided, the test always runs.
+	 *
+	 * @param capabilities The capabilities of the session, including all built-in detected capabilities.
+	 */
+	when?(capabilities: Capabilities): boolean;
+
+	/**
+	 * Detects the value of the capability. Either a probe or a script must be provided.
+	 *
+	 * @param session The session being tested.
+	 * @param capabilities The capabilities of the session, including all built-in detected capabilities.
+	 * @returns The value of the capability, or a Promise or Task that resolves to the value.
+	 */
+	probe?(session: Session, capabilities: Capabilities): any;
+}
+
 function isMsEdge(capabilities: Capabilities, minVersion?: number, maxVersion?: number) {
 	if (capabilities.browserName !== 'MicrosoftEdge') {
 		return false;
@@ -1282,6 +2415,60 @@ function isValidVersion(capabilities: Capabilities, minVersion?: number, maxVers
 
 function noop() { }
 
+/**
+ * Converts a JsonWireProtocol capabilities object into one that is acceptable to a W3C WebDriver server by renaming
+ * legacy capabilities to their standard equivalents and dropping capabilities that are neither standard nor
+ * vendor-prefixed.
+ */
+function toW3cCapabilities(capabilities: Capabilities) {
+	const w3cCapabilities: { [key: string]: any } = {};
+
+	Object.keys(capabilities).forEach((key: keyof Capabilities) => {
+		let value = capabilities[key];
+		if (value == null) {
+			return;
+		}
+
+		if (key === 'version') {
+			key = 'browserVersion';
+		}
+		else if (key === 'platform' || key === 'platformName') {
+			key = 'platformName';
+			value = toW3cPlatformName(value);
+			if (!value) {
+				return;
+			}
+		}
+
+		if (key in w3cCapabilityNames || key.indexOf(':') !== -1) {
+			w3cCapabilities[key] = value;
+		}
+	});
+
+	return w3cCapabilities;
+}
+
+/**
+ * Converts a legacy platform name like 'WIN8' or 'MAC' into the W3C platform name of the same operating system.
+ * Platforms that have no W3C equivalent, like 'ANY', convert to undefined.
+ */
+function toW3cPlatformName(platform: string) {
+	const name = String(platform).toLowerCase();
+
+	if (/^win|^xp$|^vista$/.test(name)) {
+		return 'windows';
+	}
+	if (/^mac|^os ?x|^(?:snow_leopard|mountain_lion|mavericks|yosemite|el_capitan|sierra|high_sierra)$/.test(name)) {
+		return 'mac';
+	}
+	if (name === 'linux' || name === 'unix') {
+		return 'linux';
+	}
+	if (name === 'android' || name === 'ios') {
+		return name;
+	}
+}
+
 /**
  * Returns the actual response value from the remote environment.
  *
@@ -1291,8 +2478,3 @@ function noop() { }
 function returnValue(response: any): any {
 	return response.value;
 }
-
-interface ResponseData {
-	response: Response;
-	data: any;
-}
@@ -1,15 +1,24 @@
 import Element, { ElementOrElementId } from './Element';
-import Server, { Method } from './Server';
+import Server, { Method, PipeliningPolicy, SendOptions } from './Server';
 import findDisplayed from './lib/findDisplayed';
 import { partial } from '@dojo/core/lang';
 import Task from '@dojo/core/async/Task';
-import statusCodes from './lib/statusCodes';
-import Locator, { toW3cLocator } from './lib/Locator';
+import { createError, SessionClosedError, WebDriverError } from './errors';
+import Locator from './lib/Locator';
+import Actions, { ActionSequence } from './lib/Actions';
+import { Dialect, getEndpoint, trackPressedModifiers } from './lib/endpoints';
 import { forCommand as utilForCommand, sleep, toExecuteString } from './lib/util';
 import waitForDeleted from './lib/waitForDeleted';
-import { Capabilities, Geolocation, LogEntry, WebDriverCookie } from './interfaces';
+import { Capabilities, Geolocation, LogEntry, Thenable, WebDriverCookie, WindowRect } from './interfaces';
+import { EventTargettedObject, Handle } from '@dojo/interfaces/core';
 
 export default class Session extends Locator<Task<Element>, Task<Element[]>, Task<void>> {
+	/**
+	 * The pipelining policy of the session, which controls how many requests may be sent to the remote server at
+	 * once. Defaults to [[Server.pipelining]].
+	 */
+	pipelining: PipeliningPolicy;
+
 	private _sessionId: string;
 	private _server: Server;
 	private _capabilities: Capabilities;
@@ -20,7 +29,15 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	private _movedToElement = false;
 	private _lastMousePosition: any = null;
 	private _lastAltitude: any = null;
-	private _nextRequest: Task<any>;
+	private _endpointState: { [key: string]: any } = {};
+	private _activeRequests: QueuedRequest[] = [];
+	private _queuedRequests: QueueEntry[] = [];
+	private _priorityDepth = 0;
+	private _state: SessionState = 'active';
+	private _stateListeners: ((event: SessionStateEvent) => void)[] = [];
+	private _quitTask: Task<void>;
+	private _lastActivity = Date.now();
+	private _heartbeat: { interval: number, timer: any } = null;
 
 	/**
 	 * A Session represents a connection to a remote environment that can be driven programmatically.
@@ -71,77 +88,399 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	}
 
 	/**
-	 * Delegates the HTTP request for a method to the underlying [[Server]] object.
+	 * The wire protocol dialect spoken by the remote end, as negotiated when the session was created.
 	 *
-	 * @private
+	 * @readonly
+	 */
+	get dialect(): Dialect {
+		return this._capabilities.isWebDriver ? 'w3c' : 'jsonwire';
+	}
+
+	/**
+	 * The lifecycle state of the session:
+	 *
+	 * * `creating`: the session has been started on the remote server, but its capabilities are still being detected
+	 * * `active`: the session is ready to be used
+	 * * `quitting`: [[Session.quit]] has been called, but the remote server has not finished terminating the session
+	 * * `quit`: the session has been terminated
+	 *
+	 * Commands called while the session is quitting or has quit fail immediately with a [[SessionClosedError]].
+	 *
+	 * @readonly
+	 */
+	get state(): SessionState {
+		return this._state;
+	}
+
+	/**
+	 * Changes the lifecycle state of the session and notifies any state change listeners. This is used by [[Server]]
+	 * while a session is being created and by [[Session.quit]], and should not normally need to be called directly.
+	 *
+	 * @param state The new state of the session.
 	 */
-	private _delegateToServer<T>(method: Method, path: string, requestData: any, pathParts?: string[]) {
-		path = 'session/' + this._sessionId + (path ? ('/' + path) : '');
+	setState(state: SessionState) {
+		const previousState = this._state;
+		if (state === previousState) {
+			return;
+		}
 
-		if (method === 'post' && !requestData && this.capabilities.brokenEmptyPost) {
-			requestData = {};
+		if (previousState === 'quit') {
+			throw new Error('Session ' + this._sessionId + ' has already quit');
 		}
 
-		let cancelled = false;
-		return new Task<T>((resolve, reject) => {
-			// The promise is cleared from `_nextRequest` once it has been resolved in order to avoid
-			// infinitely long chains of promises retaining values that are not used any more
-			let thisRequest: Task<any>;
-			const clearNextRequest = () => {
-				if (this._nextRequest === thisRequest) {
-					this._nextRequest = null;
+		this._state = state;
+
+		this._stateListeners.slice().forEach(listener => {
+			listener({ type: 'statechange', target: this, state, previousState });
+		});
+	}
+
+	/**
+	 * Adds a listener that is called each time the lifecycle state of the session changes.
+	 *
+	 * ```js
+	 * session.onStateChange(function (event) {
+	 *     console.log(event.previousState + ' -> ' + event.state);
+	 * });
+	 * ```
+	 *
+	 * @param listener The function to call with a [[SessionStateEvent]] when the state changes.
+	 * @returns A handle that can be used to remove the listener.
+	 */
+	onStateChange(listener: (event: SessionStateEvent) => void): Handle {
+		const listeners = this._stateListeners;
+		listeners.push(listener);
+
+		return {
+			destroy() {
+				this.destroy = noop;
+				const index = listeners.indexOf(listener);
+				if (index !== -1) {
+					listeners.splice(index, 1);
 				}
-			};
+			}
+		};
+	}
+
+	/**
+	 * Starts sending a heartbeat to the remote server whenever the session has been idle for longer than `interval`,
+	 * so that the session is not terminated by remote servers, like cloud grids, that quit idle sessions. This is
+	 * useful while a test is waiting on something other than the browser, like a slow fixture or a debugger.
+	 *
+	 * The heartbeat is a request for the current URL that is sent through the same queue as all other commands, and
+	 * only while no other commands are queued, so it never runs at the same time as, or ahead of, a command sent by
+	 * a test. The heartbeat stops when the session is quit.
+	 *
+	 * @param interval The time the session may be idle before a heartbeat is sent, in milliseconds.
+	 * @returns A handle that can be used to stop the heartbeat.
+	 */
+	startHeartbeat(interval: number = 30000): Handle {
+		this.stopHeartbeat();
+
+		const heartbeat = { interval, timer: <any> null };
+		const session = this;
+
+		if (this._state !== 'quitting' && this._state !== 'quit') {
+			this._heartbeat = heartbeat;
+			this._scheduleHeartbeat(heartbeat);
+		}
+
+		return {
+			destroy() {
+				this.destroy = noop;
+				if (session._heartbeat === heartbeat) {
+					session.stopHeartbeat();
+				}
+			}
+		};
+	}
+
+	/**
+	 * Stops the heartbeat started by [[Session.startHeartbeat]].
+	 */
+	stopHeartbeat() {
+		if (this._heartbeat) {
+			clearTimeout(this._heartbeat.timer);
+			this._heartbeat = null;
+		}
+	}
+
+	/**
+	 * Schedules the next heartbeat for the time the session will have been idle for the heartbeat interval.
+	 */
+	private _scheduleHeartbeat(heartbeat: { interval: number, timer: any }) {
+		// While commands are queued, the session is not idle, so there is no need to check again until the interval
+		// has passed
+		const delay = this._isBusy() ? heartbeat.interval :
+			Math.max(this._lastActivity + heartbeat.interval - Date.now(), 0);
+
+		heartbeat.timer = setTimeout(() => {
+			if (this._heartbeat !== heartbeat) {
+				return;
+			}
+
+			if (this._isBusy() || Date.now() - this._lastActivity < heartbeat.interval) {
+				this._scheduleHeartbeat(heartbeat);
+				return;
+			}
+
+			this.getCurrentUrl().catch(error => {
+				// The session no longer exists, so there is nothing left to keep alive
+				if (error.name === 'NoSuchDriver' && this._heartbeat === heartbeat) {
+					this.stopHeartbeat();
+				}
+			}).then(() => {
+				if (this._heartbeat === heartbeat) {
+					this._scheduleHeartbeat(heartbeat);
+				}
+			});
+		}, delay);
+
+		// A heartbeat should not keep the process running
+		if (heartbeat.timer.unref) {
+			heartbeat.timer.unref();
+		}
+	}
+
+	/**
+	 * The requests that are waiting to be sent to the remote server, in the order they will be sent.
+	 *
+	 * @readonly
+	 */
+	get pendingRequests(): QueuedRequest[] {
+		return this._queuedRequests.map(entry => ({ ...entry.request }));
+	}
+
+	/**
+	 * The number of requests that are waiting to be sent to the remote server.
+	 *
+	 * @readonly
+	 */
+	get pendingRequestCount() {
+		return this._queuedRequests.length;
+	}
+
+	/**
+	 * The requests that have been sent to the remote server and have not finished yet. Unless requests are pipelined
+	 * (see [[Session.pipelining]]), there is at most one.
+	 *
+	 * @readonly
+	 */
+	get activeRequests(): QueuedRequest[] {
+		return this._activeRequests.map(request => ({ ...request }));
+	}
+
+	/**
+	 * Cancels all requests that are waiting to be sent to the remote server. The Tasks for the cancelled requests are
+	 * rejected with a CancelError. Requests that have already been sent are not affected.
+	 *
+	 * @returns The number of requests that were cancelled.
+	 */
+	cancelPendingRequests(): number {
+		const entries = this._queuedRequests.splice(0, this._queuedRequests.length);
+
+		entries.forEach(entry => {
+			const error = new Error('Canceled');
+			error.name = 'CancelError';
+			entry.reject(error);
+		});
+
+		return entries.length;
+	}
+
+	/**
+	 * Runs a function with any requests that it makes sent through the high-priority lane of the request queue.
+	 * High-priority requests are sent before any requests in the normal lane that are still waiting, so operations
+	 * like capturing diagnostic information after a failure do not have to wait for a long backlog of commands.
+	 * [[Session.quit]] always uses the high-priority lane.
+	 *
+	 * ```js
+	 * session.prioritize(function () {
+	 *     return session.takeScreenshot();
+	 * }).then(function (screenshot) {
+	 *     // ...
+	 * });
+	 * ```
+	 *
+	 * Only requests that are made while the function is running are prioritized. Requests made later, like those made
+	 * from the callbacks of a Task, use the normal lane unless they are made within another call to `prioritize`, so
+	 * requests made by other code while the returned Task is pending never jump the queue.
+	 *
+	 * @param callback The function to run.
+	 */
+	prioritize<T>(callback: () => T | Thenable<T>): Task<T> {
+		++this._priorityDepth;
+
+		try {
+			return Task.resolve(callback());
+		}
+		catch (error) {
+			return Task.reject<T>(error);
+		}
+		finally {
+			--this._priorityDepth;
+		}
+	}
 
-			const runRequest = () => {
-				// `runRequest` is normally called once the previous request is finished. If this request
-				// is cancelled before the previous request is finished, then it should simply never run.
-				// (This Task will have been rejected already by the cancellation.)
-				if (cancelled) {
-					clearNextRequest();
-					return;
+	/**
+	 * Delegates the HTTP request for a method to the underlying [[Server]] object. Requests are always made using
+	 * JsonWireProtocol paths and request data, and are converted into the equivalent request for the dialect spoken
+	 * by the remote end using the routing table in [[lib/endpoints]]. Requests for operations that the routing table
+	 * marks as safe, or that are sent with the `safe` option, may be retried by [[Server.retryPolicy]].
+	 *
+	 * @private
+	 */
+	private _delegateToServer<T>(
+		method: Method,
+		path: string,
+		requestData: any,
+		pathParts?: string[],
+		options?: SendOptions
+	): Task<T> {
+		// Commands sent after a session has quit would only fail on the server with less helpful errors
+		if (this._state === 'quitting' || this._state === 'quit') {
+			return Task.reject<T>(this._createClosedError(method, path));
+		}
+
+		const endpoint = getEndpoint(this.dialect, method, path);
+		if (endpoint.unsupported) {
+			return Task.reject<T>(createError('unknown command', method.toUpperCase() + ' ' + path +
+				' is only supported by servers that implement the W3C WebDriver standard'));
+		}
+
+		const sessionPath = 'session/' + this._sessionId + (endpoint.path ? ('/' + endpoint.path) : '');
+		const priority: RequestPriority = this._priorityDepth > 0 ? 'high' : 'normal';
+
+		return this._enqueue<T>({ method, path, priority, queuedAt: Date.now() }, () => {
+			return Task.resolve().then(() => {
+				return endpoint.request ? endpoint.request(requestData, this, this._endpointState) : requestData;
+			}).then(data => {
+				// The W3C standard requires a request body for all POST requests
+				if (endpoint.method === 'post' && !data &&
+					(this.capabilities.brokenEmptyPost || this.dialect === 'w3c')
+				) {
+					data = {};
 				}
 
-				const response = this._server[method](path, requestData, pathParts).then(response => response.value);
+				return this._server[endpoint.method](sessionPath, data, pathParts, {
+					safe: endpoint.safe || Boolean(options && options.safe)
+				});
+			}).then(response => {
+				const value = response.value;
+				return endpoint.response ? endpoint.response(value) : value;
+			});
+		});
+	}
+
+	/**
+	 * Adds a request to the queue. High-priority requests are placed after any other waiting high-priority requests,
+	 * but ahead of all waiting normal requests.
+	 *
+	 * @param request Information about the request.
+	 * @param send A function that sends the request once it reaches the front of the queue.
+	 */
+	private _enqueue<T>(request: QueuedRequest, send: () => Task<T>): Task<T> {
+		let entry: QueueEntry;
+
+		return new Task<T>((resolve, reject) => {
+			entry = {
+				request,
+				reject,
+				run: () => {
+					// A request that was waiting when the session quit would only fail on the server
+					if (this._state === 'quit') {
+						reject(this._createClosedError(request.method, request.path));
+						return;
+					}
 
-				// safePromise is simply a promise based on the response that is guaranteed to resolve -- it is only
-				// used for promise chain management
-				const safePromise = response.catch(_error => { });
-				safePromise.then(clearNextRequest);
+					request.startedAt = Date.now();
+					this._activeRequests.push(request);
 
-				// The value of the response always needs to be taken directly from the server call
-				// rather than from the chained `_nextRequest` promise, since if an undefined value is
-				// returned by the server call and that value is returned through `finally(runRequest)`,
-				// the *previous* Task’s resolved value will be used as the resolved value, which is
-				// wrong
-				resolve(response);
+					const response = send();
+
+					// The next request is started once this one has finished, whether or not it succeeded
+					response.catch(noop).then(() => {
+						this._activeRequests.splice(this._activeRequests.indexOf(request), 1);
+						this._lastActivity = Date.now();
+						this._runQueuedRequests();
+					});
 
-				return safePromise;
+					resolve(response);
+				}
 			};
 
-			// At least ChromeDriver 2.19 will just hard close connections if parallel requests are made to the server,
-			// so any request sent to the server for a given session must be serialised. Other servers like Selendroid
-			// have been known to have issues with parallel requests as well, so serialisation is applied universally,
-			// even though it has negative performance implications
-			if (this._nextRequest) {
-				thisRequest = this._nextRequest = this._nextRequest.finally(runRequest);
+			let index = this._queuedRequests.length;
+			if (request.priority === 'high') {
+				index = 0;
+				while (index < this._queuedRequests.length && this._queuedRequests[index].request.priority === 'high') {
+					++index;
+				}
 			}
-			else {
-				thisRequest = this._nextRequest = runRequest();
+
+			this._queuedRequests.splice(index, 0, entry);
+			this._runQueuedRequests();
+		}, () => {
+			// A cancelled request that has not been sent yet should simply never run
+			const index = this._queuedRequests.indexOf(entry);
+			if (index !== -1) {
+				this._queuedRequests.splice(index, 1);
 			}
-		}, () => cancelled = true);
+		});
+	}
+
+	/**
+	 * Starts queued requests until the number of running requests reaches the limit set by the pipelining policy.
+	 */
+	private _runQueuedRequests() {
+		const limit = this._getRequestLimit();
+		while (this._queuedRequests.length && this._activeRequests.length < limit) {
+			this._queuedRequests.shift().run();
+		}
+	}
+
+	/**
+	 * Gets the maximum number of requests that may be sent to the remote server at once.
+	 */
+	private _getRequestLimit() {
+		const policy = this.pipelining != null ? this.pipelining : this._server.pipelining;
+
+		// At least ChromeDriver 2.19 will just hard close connections if parallel requests are made to the server, and
+		// other servers like Selendroid have been known to have issues with parallel requests as well, so requests
+		// are only sent in parallel to servers that are known to handle them correctly
+		if (!this.capabilities.supportsConcurrentRequests || policy == null || policy === 'serial') {
+			return 1;
+		}
+
+		if (policy === 'parallel') {
+			return Infinity;
+		}
+
+		return Math.max(Number(policy) || 1, 1);
+	}
+
+	/**
+	 * Whether or not any requests are running or waiting to run.
+	 */
+	private _isBusy() {
+		return this._activeRequests.length > 0 || this._queuedRequests.length > 0;
+	}
+
+	private _createClosedError(method: string, path: string) {
+		return new SessionClosedError('Session ' + this._sessionId + ' has ' +
+			(this._state === 'quit' ? 'quit' : 'been asked to quit') + ' and cannot run ' + method.toUpperCase() +
+			' ' + path);
 	}
 
-	serverGet<T>(path: string, requestData?: any, pathParts?: string[]) {
-		return this._delegateToServer<T>('get', path, requestData, pathParts);
+	serverGet<T>(path: string, requestData?: any, pathParts?: string[], options?: SendOptions) {
+		return this._delegateToServer<T>('get', path, requestData, pathParts, options);
 	}
 
-	serverPost<T>(path: string, requestData?: any, pathParts?: string[]) {
-		return this._delegateToServer<T>('post', path, requestData, pathParts);
+	serverPost<T>(path: string, requestData?: any, pathParts?: string[], options?: SendOptions) {
+		return this._delegateToServer<T>('post', path, requestData, pathParts, options);
 	}
 
-	serverDelete<T>(path: string, requestData?: any, pathParts?: string[]) {
-		return this._delegateToServer<T>('delete', path, requestData, pathParts);
+	serverDelete<T>(path: string, requestData?: any, pathParts?: string[], options?: SendOptions) {
+		return this._delegateToServer<T>('delete', path, requestData, pathParts, options);
 	}
 
 	/**
@@ -210,11 +549,7 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	getCurrentWindowHandle() {
 		return this.serverGet<string>('window_handle').then(handle => {
 			if (this.capabilities.brokenDeleteWindow && this._closedWindows[handle]) {
-				const error: SessionError = new Error();
-				error.status = '23';
-				error.name = statusCodes[error.status][0];
-				error.message = statusCodes[error.status][1];
-				throw error;
+				throw createError(23);
 			}
 
 			return handle;
@@ -496,6 +831,38 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 		});
 	}
 
+	/**
+	 * Determines whether a window command for the given window must be sent after switching to that window, because
+	 * the window commands of the W3C WebDriver standard only operate on the current window.
+	 */
+	private _needsWindowSwitch(windowHandle: string) {
+		return this.dialect === 'w3c' && windowHandle != null && windowHandle !== 'current';
+	}
+
+	/**
+	 * Switches to a window, runs a command against it, then switches back to the window that was originally
+	 * focused, even if the command fails.
+	 */
+	private _inWindow<T>(windowHandle: string, command: () => Task<T>): Task<T> {
+		return this.getCurrentWindowHandle().then(originalHandle => {
+			let result: T;
+			let error: Error;
+
+			return this.switchToWindow(windowHandle).then(command).then(_result => {
+				result = _result;
+			}, _error => {
+				error = _error;
+			}).then(() => {
+				return this.switchToWindow(originalHandle);
+			}).then(() => {
+				if (error) {
+					throw error;
+				}
+				return result;
+			});
+		});
+	}
+
 	/**
 	 * Sets the dimensions of a window.
 	 *
@@ -530,28 +897,16 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 				return this.serverPost<void>('window/size', data);
 			}
 			else {
-				// User provided a window handle; get the current handle, switch to the new one, get the size, then
-				// switch back to the original handle.
-				let error: Error;
-				return this.getCurrentWindowHandle().then(originalHandle => {
-					return this.switchToWindow(windowHandle).then(() => {
-						return this.serverPost<void>('window/size', data);
-					}).catch(function (_error) {
-						error = error;
-					}).then(() => {
-						return this.switchToWindow(originalHandle);
-					}).then(() => {
-						if (error) {
-							throw error;
-						}
-					});
-				});
+				return this._inWindow(windowHandle, () => this.serverPost<void>('window/size', data));
 			}
 		}
 		else {
 			if (windowHandle == null) {
 				windowHandle = 'current';
 			}
+			else if (this._needsWindowSwitch(windowHandle)) {
+				return this._inWindow(windowHandle, () => this.setWindowSize(width, height));
+			}
 			return this.serverPost<void>('window/$0/size', {
 				width: width,
 				height: height
@@ -569,31 +924,14 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * @returns
 	 * An object describing the width and height of the window, in CSS pixels.
 	 */
-	getWindowSize(windowHandle?: string) {
+	getWindowSize(windowHandle?: string): Task<{ width: number, height: number }> {
 		if (this.capabilities.implicitWindowHandles) {
 			if (windowHandle == null) {
 				return this.serverGet<{ width: number, height: number }>('window/size');
 			}
 			else {
-				// User provided a window handle; get the current handle, switch to the new one, get the size, then
-				// switch back to the original handle.
-				let error: Error;
-				let size: { width: number, height: number };
-				return this.getCurrentWindowHandle().then(originalHandle => {
-					return this.switchToWindow(windowHandle).then(() => {
-						return this.serverGet<{ width: number, height: number }>('window/size');
-					}).then((_size) => {
-						size = _size;
-					}, (_error) => {
-						error = _error;
-					}).then(() => {
-						return this.switchToWindow(originalHandle);
-					}).then(() => {
-						if (error) {
-							throw error;
-						}
-						return size;
-					});
+				return this._inWindow(windowHandle, () => {
+					return this.serverGet<{ width: number, height: number }>('window/size');
 				});
 			}
 		}
@@ -601,6 +939,9 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 			if (typeof windowHandle === 'undefined') {
 				windowHandle = 'current';
 			}
+			else if (this._needsWindowSwitch(windowHandle)) {
+				return this._inWindow(windowHandle, () => this.getWindowSize());
+			}
 			return this.serverGet<{ width: number, height: number }>('window/$0/size', null, [windowHandle]);
 		}
 	}
@@ -630,6 +971,9 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 			x = windowHandle;
 			windowHandle = 'current';
 		}
+		else if (this._needsWindowSwitch(windowHandle)) {
+			return this._inWindow(windowHandle, () => this.setWindowPosition(x, y));
+		}
 
 		return this.serverPost<void>('window/$0/position', {
 			x: x,
@@ -651,10 +995,13 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * primary monitor. If a secondary monitor exists above or to the left of the primary monitor, these values
 	 * will be negative.
 	 */
-	getWindowPosition(windowHandle?: string) {
+	getWindowPosition(windowHandle?: string): Task<{ x: number, y: number }> {
 		if (typeof windowHandle === 'undefined') {
 			windowHandle = 'current';
 		}
+		else if (this._needsWindowSwitch(windowHandle)) {
+			return this._inWindow(windowHandle, () => this.getWindowPosition());
+		}
 
 		return this.serverGet<{ x: number, y: number }>('window/$0/position', null, [windowHandle]).then(function (position) {
 			// At least InternetExplorerDriver 2.41.0 on IE9 returns an object containing extra properties
@@ -669,14 +1016,176 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * The name of the window to resize. See [[Session.switchToWindow]] to learn about valid
 	 * window names. Omit this argument to resize the currently focused window.
 	 */
-	maximizeWindow(windowHandle?: string) {
+	maximizeWindow(windowHandle?: string): Task<void> {
 		if (typeof windowHandle === 'undefined') {
 			windowHandle = 'current';
 		}
+		else if (this._needsWindowSwitch(windowHandle)) {
+			return this._inWindow(windowHandle, () => this.maximizeWindow());
+		}
 
 		return this.serverPost<void>('window/$0/maximize', null, [windowHandle]);
 	}
 
+	/**
+	 * Minimises the currently focused window according to the platform’s window system behaviour. Only supported by
+	 * remote drivers that implement the W3C WebDriver standard; there is no fallback, so sessions speaking the
+	 * JsonWireProtocol reject with an UnknownCommand error without contacting the remote server.
+	 */
+	minimizeWindow() {
+		return this.serverPost<void>('window/minimize');
+	}
+
+	/**
+	 * Makes the currently focused window fill the screen, like the fullscreen mode of the browser. If the remote
+	 * driver does not support this command, the window is maximised instead.
+	 */
+	fullscreenWindow() {
+		if (this.capabilities.brokenFullscreenWindow) {
+			return this.maximizeWindow();
+		}
+
+		return this.serverPost<void>('window/fullscreen').catch(error => {
+			if (error.name === 'UnknownCommand') {
+				this.capabilities.brokenFullscreenWindow = true;
+				return this.maximizeWindow();
+			}
+
+			throw error;
+		});
+	}
+
+	/**
+	 * Gets the position and dimensions of the currently focused window. If the remote driver does not support the W3C
+	 * window rect command, the position and size are retrieved separately.
+	 *
+	 * @returns
+	 * An object describing the position of the window relative to the top-left corner of the primary monitor, and
+	 * its width and height, in CSS pixels.
+	 */
+	getWindowRect(): Task<WindowRect> {
+		const getSeparately = () => {
+			return this.getWindowPosition().then(position => {
+				return this.getWindowSize().then(function (size) {
+					return { x: position.x, y: position.y, width: size.width, height: size.height };
+				});
+			});
+		};
+
+		if (this.capabilities.brokenWindowRect) {
+			return getSeparately();
+		}
+
+		return this.serverGet<WindowRect>('window/rect').then(function (rect) {
+			return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+		}, error => {
+			if (error.name === 'UnknownCommand') {
+				this.capabilities.brokenWindowRect = true;
+				return getSeparately();
+			}
+
+			throw error;
+		});
+	}
+
+	/**
+	 * Moves and resizes the currently focused window in a single operation. If the remote driver does not support
+	 * the W3C window rect command, the window is moved and resized separately.
+	 *
+	 * @param rect
+	 * The new position of the window relative to the top-left corner of the primary monitor, and its new width and
+	 * height, in CSS pixels. Omitted properties are left unchanged.
+	 */
+	setWindowRect(rect: Partial<WindowRect>): Task<void> {
+		const setSeparately = () => {
+			let task = Task.resolve();
+			const hasPosition = rect.x != null || rect.y != null;
+			const hasSize = rect.width != null || rect.height != null;
+
+			if (hasPosition) {
+				task = task.then(() => {
+					return rect.x != null && rect.y != null ? rect : this.getWindowPosition();
+				}).then(position => {
+					return this.setWindowPosition(rect.x == null ? position.x : rect.x,
+						rect.y == null ? position.y : rect.y);
+				});
+			}
+
+			if (hasSize) {
+				task = task.then(() => {
+					return rect.width != null && rect.height != null ? rect : this.getWindowSize();
+				}).then(size => {
+					return this.setWindowSize(rect.width == null ? size.width : rect.width,
+						rect.height == null ? size.height : rect.height);
+				});
+			}
+
+			return task;
+		};
+
+		if (this.capabilities.brokenWindowRect) {
+			return setSeparately();
+		}
+
+		return this.serverPost<void>('window/rect', {
+			x: rect.x == null ? null : rect.x,
+			y: rect.y == null ? null : rect.y,
+			width: rect.width == null ? null : rect.width,
+			height: rect.height == null ? null : rect.height
+		}).then(noop, error => {
+			if (error.name === 'UnknownCommand') {
+				this.capabilities.brokenWindowRect = true;
+				return setSeparately();
+			}
+
+			throw error;
+		});
+	}
+
+	/**
+	 * Opens a new, blank browser tab or window. The new window is not focused; use [[Session.switchToWindow]] with
+	 * the returned handle to switch to it.
+	 *
+	 * If the remote driver does not support the W3C New Window command, the window is opened by the page with
+	 * `window.open`, which may be prevented by a popup blocker, and browsers may choose whether it opens as a tab or
+	 * a window.
+	 *
+	 * @param type The kind of window to open. Remote drivers may open a different kind if it is not supported.
+	 * @returns The handle of the new window.
+	 */
+	openNewWindow(type: NewWindowType = 'tab'): Task<string> {
+		const openManually = () => {
+			return this.getAllWindowHandles().then(oldHandles => {
+				return this.execute<void>(/* istanbul ignore next */ function (type: string) {
+					// Window features are what makes most browsers open a window instead of a tab
+					window.open('about:blank', '', type === 'window' ? 'width=800,height=600' : '');
+				}, [ type ]).then(() => this.getAllWindowHandles()).then(handles => {
+					const newHandles = handles.filter(handle => oldHandles.indexOf(handle) === -1);
+					if (!newHandles.length) {
+						throw new Error('A new window could not be opened; it may have been blocked by the browser');
+					}
+
+					return newHandles[0];
+				});
+			});
+		};
+
+		if (this.capabilities.brokenNewWindow) {
+			return openManually();
+		}
+
+		return this.serverPost<{ handle: string, type: string }>('window/new', { type }).then(function (result) {
+			return result.handle;
+		}, error => {
+			if (error.name === 'UnknownCommand') {
+				this.capabilities.brokenNewWindow = true;
+				return openManually();
+			}
+
+			throw error;
+		});
+	}
+
 	/**
 	 * Gets all cookies set on the current page.
 	 */
@@ -718,25 +1227,17 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 
 		return this.serverPost<void>('cookie', {
 			cookie: cookie
-		}).catch((error: SessionError) => {
+		}).catch((error: WebDriverError) => {
 			// At least ios-driver 0.6.0-SNAPSHOT April 2014 does not know how to set cookies
 			if (error.name === 'UnknownCommand') {
 				// Per RFC6265 section 4.1.1, cookie names must match `token` (any US-ASCII character except for
 				// control characters and separators as defined in RFC2616 section 2.2)
 				if (/[^A-Za-z0-9!#$%&'*+.^_`|~-]/.test(cookie.name)) {
-					error = new Error();
-					error.status = '25';
-					error.name = statusCodes[error.status][0];
-					error.message = 'Invalid cookie name';
-					throw error;
+					throw createError(25, 'Invalid cookie name');
 				}
 
 				if (/[^\u0021\u0023-\u002b\u002d-\u003a\u003c-\u005b\u005d-\u007e]/.test(cookie.value)) {
-					error = new Error();
-					error.status = '25';
-					error.name = statusCodes[error.status][0];
-					error.message = 'Invalid cookie value';
-					throw error;
+					throw createError(25, 'Invalid cookie value');
 				}
 
 				const cookieToSet = [cookie.name + '=' + cookie.value];
@@ -851,27 +1352,13 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * element to retrieve.
 	 */
 	find(using: string, value: string) {
-		if (this.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
-		if (this.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
 		if (using.indexOf('link text') !== -1 && (
 			this.capabilities.brokenWhitespaceNormalization || this.capabilities.brokenLinkTextLocator
 		)) {
 			return this.execute<Element>(/* istanbul ignore next */ this._manualFindByLinkText, [using, value])
 				.then(element => {
 					if (!element) {
-						const error = new Error();
-						error.name = 'NoSuchElement';
-						throw error;
+						throw createError(7);
 					}
 					return new Element(element, this);
 				});
@@ -895,18 +1382,6 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	 * The strategy-specific value to search for. See [[Session.find]] for details.
 	 */
 	findAll(using: string, value: string) {
-		if (this.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
-		if (this.capabilities.isWebDriver) {
-			const locator = toW3cLocator(using, value);
-			using = locator.using;
-			value = locator.value;
-		}
-
 		if (using.indexOf('link text') !== -1 && (
 			this.capabilities.brokenWhitespaceNormalization || this.capabilities.brokenLinkTextLocator
 		)) {
@@ -1041,16 +1516,53 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	}
 
 	/**
-	 * Moves the remote environment’s mouse cursor to the specified element or relative position. If the element is
-	 * outside of the viewport, the remote driver will attempt to scroll it into view automatically.
+	 * Performs a sequence of low-level input actions using the W3C WebDriver Actions API. Unlike the legacy mouse,
+	 * keyboard, and touch methods, this allows several input devices, like two fingers or a mouse and a keyboard, to
+	 * be used at the same time. Keys and buttons that are pressed by the actions remain pressed until they are
+	 * released by another action or by [[Session.releaseActions]].
 	 *
-	 * @param element
-	 * The element to move the mouse to. If x-offset and y-offset are not specified, the mouse will be moved to the
-	 * centre of the element.
+	 * This method requires a remote end that supports the Actions API.
 	 *
-	 * @param xOffset
-	 * The x-offset of the cursor, maybe in CSS pixels, relative to the left edge of the specified element’s
-	 * bounding client rectangle. If no element is specified, the offset is relative to the previous position of the
+	 * ```js
+	 * session.performActions(new Actions()
+	 *     .keyDown(keys.SHIFT)
+	 *     .pointerMove({ origin: element })
+	 *     .pointerDown()
+	 *     .pointerUp()
+	 *     .keyUp(keys.SHIFT)
+	 * );
+	 * ```
+	 *
+	 * @param actions The actions to perform, as an [[Actions]] builder or as raw W3C action sequences.
+	 */
+	performActions(actions: Actions | ActionSequence[]) {
+		const sequences = actions instanceof Actions ? actions.toJSON() : actions;
+
+		return this.serverPost<void>('actions', { actions: sequences }).then(() => {
+			trackPressedModifiers(sequences, this._endpointState);
+		});
+	}
+
+	/**
+	 * Releases all keys and pointer buttons that are currently pressed in the remote environment.
+	 */
+	releaseActions() {
+		return this.serverDelete<void>('actions').then(() => {
+			this._endpointState.pressedModifiers = {};
+		});
+	}
+
+	/**
+	 * Moves the remote environment’s mouse cursor to the specified element or relative position. If the element is
+	 * outside of the viewport, the remote driver will attempt to scroll it into view automatically.
+	 *
+	 * @param element
+	 * The element to move the mouse to. If x-offset and y-offset are not specified, the mouse will be moved to the
+	 * centre of the element.
+	 *
+	 * @param xOffset
+	 * The x-offset of the cursor, maybe in CSS pixels, relative to the left edge of the specified element’s
+	 * bounding client rectangle. If no element is specified, the offset is relative to the previous position of the
 	 * mouse, or to the left edge of the page’s root element if the mouse was never moved before.
 	 *
 	 * @param yOffset
@@ -1201,6 +1713,66 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 		return this.serverPost<void>('doubleclick');
 	}
 
+	/**
+	 * Drags an element and drops it onto another element, or at an offset from its original position.
+	 *
+	 * Elements that use HTML5 drag and drop (elements that are `draggable`) cannot be dragged by the native input
+	 * commands of most drivers, so for these elements the full sequence of HTML5 drag events (`dragstart`, `drag`,
+	 * `dragenter`, `dragover`, `drop`, and `dragend`), with a shared `DataTransfer` object, is simulated in the page.
+	 * A simulated drag fails if the page cancels the `dragstart` event, or if the drop target does not accept the drop
+	 * by cancelling the `dragover` event.
+	 * Other elements are dragged using native input commands: the W3C Actions API where it is available, or the
+	 * legacy mouse commands (which are themselves simulated on drivers with broken mouse events) otherwise.
+	 *
+	 * @param source The element to drag.
+	 *
+	 * @param target
+	 * The element to drop the source element onto, or the offset, in CSS pixels, from the centre of the source
+	 * element to the point the source element is dropped at.
+	 *
+	 * @param options Options that control how the element is dragged.
+	 */
+	dragAndDrop(source: Element, target: Element | { x: number, y: number }, options: DragAndDropOptions = {}) {
+		const targetElement = target instanceof Element ? target : null;
+		const offset = target instanceof Element ? null : target;
+
+		const useHtml5: Task<boolean> = options.html5 != null ? Task.resolve(options.html5) :
+			this.execute<boolean>('return arguments[0].draggable === true;', [ source ]);
+
+		return useHtml5.then(html5 => {
+			if (html5) {
+				return this.execute<string>(simulateDragAndDrop, [ source, targetElement, offset ]).then(result => {
+					if (result === 'cancelled') {
+						throw new Error('The drag operation was cancelled by the page');
+					}
+					if (result === 'rejected') {
+						throw new Error('The drop was not accepted by the drop target');
+					}
+				});
+			}
+
+			const duration = options.duration || 0;
+
+			if (this.dialect === 'w3c' && !this.capabilities.brokenMouseEvents) {
+				return this.performActions(new Actions()
+					.pointerMove({ origin: source })
+					.pointerDown()
+					.pointerMove(targetElement ? { origin: targetElement, duration } :
+						{ origin: 'pointer', x: offset.x, y: offset.y, duration })
+					.pointerUp()
+				);
+			}
+
+			return this.moveMouseTo(source).then(() => {
+				return this.pressMouseButton(0);
+			}).then(() => {
+				return targetElement ? this.moveMouseTo(targetElement) : this.moveMouseTo(offset.x, offset.y);
+			}).then(() => {
+				return this.releaseMouseButton(0);
+			});
+		});
+	}
+
 	/**
 	 * Taps an element on a touch screen device. If the element is outside of the viewport, the remote driver will
 	 * attempt to scroll it into view automatically.
@@ -1351,6 +1923,186 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 		});
 	}
 
+	/**
+	 * Performs a two-finger pinch gesture, moving two fingers towards each other.
+	 *
+	 * Gestures are performed with touch pointers of the W3C Actions API when speaking to a W3C WebDriver server. If
+	 * the remote driver does not support touch pointers, or only supports the JsonWireProtocol, a sequence of
+	 * synthetic touch events (`touchstart`, `touchmove`, `touchend`) and, where the browser supports them, pointer
+	 * events is dispatched in the page instead. Synthetic events are dispatched all at once, so `duration` only applies
+	 * to native gestures.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size and speed of the gesture.
+	 */
+	pinch(element?: Element, options?: PinchOptions): Task<void>;
+	pinch(options?: PinchOptions): Task<void>;
+	@forCommand({ usesElement: true })
+	pinch(...args: any[]) {
+		const { element, options } = getGestureArguments<PinchOptions>(args);
+		return this._performPinch(element, 200, 50, options);
+	}
+
+	/**
+	 * Performs a two-finger spread (zoom) gesture, moving two fingers away from each other. See [[Session.pinch]] for
+	 * how gestures are performed.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size and speed of the gesture.
+	 */
+	spread(element?: Element, options?: PinchOptions): Task<void>;
+	spread(options?: PinchOptions): Task<void>;
+	@forCommand({ usesElement: true })
+	spread(...args: any[]) {
+		const { element, options } = getGestureArguments<PinchOptions>(args);
+		return this._performPinch(element, 50, 200, options);
+	}
+
+	/**
+	 * Performs a two-finger rotation gesture, moving two fingers around the circle between them. See
+	 * [[Session.pinch]] for how gestures are performed.
+	 *
+	 * @param element The element the gesture is centred on. Defaults to the centre of the viewport.
+	 * @param options Options that control the size, direction, and speed of the gesture.
+	 */
+	rotate(element?: Element, options?: RotateOptions): Task<void>;
+	rotate(options?: RotateOptions): Task<void>;
+	@forCommand({ usesElement: true })
+	rotate(...args: any[]) {
+		const { element, options } = getGestureArguments<RotateOptions>(args);
+		const radius = (options.distance == null ? 100 : options.distance) / 2;
+		const startAngle = options.startAngle || 0;
+		const angle = options.angle == null ? 90 : options.angle;
+
+		return this._performGesture(element, createGesturePaths(options.steps, function (progress) {
+			const radians = (startAngle + angle * progress) * Math.PI / 180;
+			const x = Math.cos(radians) * radius;
+			const y = Math.sin(radians) * radius;
+			return [ { x: -x, y: -y }, { x, y } ];
+		}), options);
+	}
+
+	/**
+	 * Performs a swipe gesture with one or more fingers side by side. See [[Session.pinch]] for how gestures are
+	 * performed.
+	 *
+	 * @param element The element the gesture starts at. Defaults to the centre of the viewport.
+	 * @param options Options that control the distance, number of fingers, and speed of the gesture.
+	 */
+	swipe(element: Element, options: SwipeOptions): Task<void>;
+	swipe(options: SwipeOptions): Task<void>;
+	@forCommand({ usesElement: true })
+	swipe(...args: any[]) {
+		const { element, options } = getGestureArguments<SwipeOptions>(args);
+		const x = options.x || 0;
+		const y = options.y || 0;
+		const fingers = options.fingers || 2;
+		const spacing = options.spacing == null ? 40 : options.spacing;
+
+		// Fingers are lined up perpendicular to the direction of the swipe
+		const length = Math.sqrt(x * x + y * y);
+		const across = length ? { x: -y / length, y: x / length } : { x: 1, y: 0 };
+
+		return this._performGesture(element, createGesturePaths(options.steps, function (progress) {
+			const positions: { x: number, y: number }[] = [];
+			for (let i = 0; i < fingers; ++i) {
+				const offset = (i - (fingers - 1) / 2) * spacing;
+				positions.push({ x: across.x * offset + x * progress, y: across.y * offset + y * progress });
+			}
+			return positions;
+		}), options);
+	}
+
+	/**
+	 * Performs a pinch or spread gesture between two distances.
+	 */
+	private _performPinch(element: Element, startDistance: number, endDistance: number, options: PinchOptions) {
+		if (options.startDistance != null) {
+			startDistance = options.startDistance;
+		}
+		if (options.endDistance != null) {
+			endDistance = options.endDistance;
+		}
+
+		const radians = (options.angle || 0) * Math.PI / 180;
+		const cos = Math.cos(radians);
+		const sin = Math.sin(radians);
+
+		return this._performGesture(element, createGesturePaths(options.steps, function (progress) {
+			const radius = (startDistance + (endDistance - startDistance) * progress) / 2;
+			return [ { x: -cos * radius, y: -sin * radius }, { x: cos * radius, y: sin * radius } ];
+		}), options);
+	}
+
+	/**
+	 * Performs a multi-finger gesture, using touch pointers of the W3C Actions API if possible and synthetic touch
+	 * and pointer events otherwise.
+	 *
+	 * @param element The element the gesture is centred on, or null to centre it on the viewport.
+	 * @param paths The positions of each finger at each step of the gesture, relative to the centre of the gesture.
+	 * @param options Options that control the speed of the gesture.
+	 */
+	private _performGesture(element: Element, paths: { x: number, y: number }[][], options: GestureOptions) {
+		const simulate = () => this.execute<void>(simulateGesture, [ element, paths ]);
+
+		if (this.dialect !== 'w3c' || this.capabilities.brokenTouchActions) {
+			return simulate();
+		}
+
+		// Positions are relative to the centre of the element, or to the top-left corner of the viewport
+		const getCentre: Task<{ x: number, y: number }> = element ? Task.resolve({ x: 0, y: 0 }) :
+			this.execute<{ x: number, y: number }>('return { x: window.innerWidth / 2, y: window.innerHeight / 2 };');
+
+		return getCentre.then(centre => {
+			const origin = element || 'viewport';
+			const steps = paths[0].length - 1;
+			const stepDuration = (options.duration == null ? 500 : options.duration) / steps;
+			const actions = new Actions();
+
+			paths.forEach((path, index) => {
+				actions.pointer('finger' + (index + 1), 'touch');
+			});
+
+			function move(step: number, duration: number) {
+				actions.tick(function () {
+					paths.forEach((path, index) => {
+						actions.pointerMove({
+							origin,
+							x: centre.x + path[step].x,
+							y: centre.y + path[step].y,
+							duration
+						}, 'finger' + (index + 1));
+					});
+				});
+			}
+
+			move(0, 0);
+			actions.tick(function () {
+				paths.forEach((path, index) => {
+					actions.pointerDown(0, 'finger' + (index + 1));
+				});
+			});
+			for (let step = 1; step <= steps; ++step) {
+				move(step, stepDuration);
+			}
+			actions.tick(function () {
+				paths.forEach((path, index) => {
+					actions.pointerUp(0, 'finger' + (index + 1));
+				});
+			});
+
+			return this.performActions(actions).catch(error => {
+				// Some mobile drivers do not support touch pointers
+				if (error.name === 'UnknownCommand') {
+					this.capabilities.brokenTouchActions = true;
+					return simulate();
+				}
+
+				throw error;
+			});
+		});
+	}
+
 	/**
 	 * Gets the current geographical location of the remote environment.
 	 *
@@ -1461,10 +2213,50 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	}
 
 	/**
-	 * Terminates the session. No more commands will be accepted by the remote after this point.
+	 * Terminates the session. No more commands will be accepted after this point. Calling `quit` more than once
+	 * returns the same Task as the first call. A session that no longer exists on the remote server is considered to
+	 * have quit successfully. If the session could not be quit, it remains usable and any heartbeat that was running
+	 * is resumed.
 	 */
-	quit() {
-		return this._server.deleteSession(this._sessionId);
+	quit(): Task<void> {
+		if (this._quitTask) {
+			return this._quitTask;
+		}
+
+		const previousState = this._state;
+		const heartbeat = this._heartbeat;
+		this.stopHeartbeat();
+		this.setState('quitting');
+
+		// Quitting uses the high-priority lane so that it does not have to wait for any commands that are still queued.
+		// The state is updated before the next request in the queue is started, so that any requests that were
+		// waiting fail immediately.
+		const request: QueuedRequest = { method: 'delete', path: '', priority: 'high', queuedAt: Date.now() };
+		return this._quitTask = this._enqueue(request, () => this._server.deleteSession(this._sessionId).then(() => {
+			this.setState('quit');
+		}, error => {
+			// If the session no longer exists on the server, it has been quit as far as the caller is concerned
+			if (error.name === 'NoSuchDriver') {
+				this.setState('quit');
+				return;
+			}
+
+			throw error;
+		})).catch(error => {
+			// The session is still usable if it could not be quit, or if quitting was cancelled before the request
+			// was sent
+			if (this._state !== 'quit') {
+				this._quitTask = null;
+				this.setState(previousState);
+
+				if (heartbeat && !this._heartbeat) {
+					this._heartbeat = heartbeat;
+					this._scheduleHeartbeat(heartbeat);
+				}
+			}
+
+			throw error;
+		});
 	}
 
 	/**
@@ -1691,10 +2483,170 @@ export default class Session extends Locator<Task<Element>, Task<Element[]>, Tas
 	}
 }
 
-export interface SessionError extends Error {
-	status?: keyof typeof statusCodes;
+/**
+ * Options for [[Session.dragAndDrop]].
+ */
+export interface DragAndDropOptions {
+	/**
+	 * Whether to simulate HTML5 drag and drop events instead of using native input commands. By default, HTML5 drag
+	 * and drop is simulated if the source element is `draggable`.
+	 */
+	html5?: boolean;
+
+	/**
+	 * The time it takes to move the dragged element to its destination, in milliseconds, when native input commands
+	 * are used. Defaults to 0.
+	 */
+	duration?: number;
+}
+
+/**
+ * The kinds of browser window that can be opened with [[Session.openNewWindow]].
+ */
+export type NewWindowType = 'tab' | 'window';
+
+/**
+ * Options for the multi-finger gestures of [[Session]].
+ */
+export interface GestureOptions {
+	/**
+	 * The time the gesture takes, in milliseconds. Only used when the gesture is performed with native input
+	 * commands. Defaults to 500.
+	 */
+	duration?: number;
+
+	/**
+	 * The number of movements the gesture is broken into. More steps produce smoother curves and more move events.
+	 * Defaults to 10.
+	 */
+	steps?: number;
+}
+
+/**
+ * Options for [[Session.pinch]] and [[Session.spread]].
+ */
+export interface PinchOptions extends GestureOptions {
+	/**
+	 * The distance between the fingers at the start of the gesture, in CSS pixels. Defaults to 200 for a pinch and
+	 * 50 for a spread.
+	 */
+	startDistance?: number;
+
+	/**
+	 * The distance between the fingers at the end of the gesture, in CSS pixels. Defaults to 50 for a pinch and 200
+	 * for a spread.
+	 */
+	endDistance?: number;
+
+	/**
+	 * The angle of the line between the fingers, in degrees clockwise from horizontal. Defaults to 0.
+	 */
+	angle?: number;
 }
 
+/**
+ * Options for [[Session.rotate]].
+ */
+export interface RotateOptions extends GestureOptions {
+	/**
+	 * The angle to rotate by, in degrees. Positive angles rotate clockwise. Defaults to 90.
+	 */
+	angle?: number;
+
+	/**
+	 * The angle of the line between the fingers at the start of the gesture, in degrees clockwise from horizontal.
+	 * Defaults to 0.
+	 */
+	startAngle?: number;
+
+	/**
+	 * The distance between the fingers, in CSS pixels. Defaults to 100.
+	 */
+	distance?: number;
+}
+
+/**
+ * Options for [[Session.swipe]].
+ */
+export interface SwipeOptions extends GestureOptions {
+	/**
+	 * The horizontal distance to swipe, in CSS pixels. Defaults to 0.
+	 */
+	x?: number;
+
+	/**
+	 * The vertical distance to swipe, in CSS pixels. Defaults to 0.
+	 */
+	y?: number;
+
+	/**
+	 * The number of fingers to swipe with. Defaults to 2.
+	 */
+	fingers?: number;
+
+	/**
+	 * The distance between adjacent fingers, in CSS pixels. Defaults to 40.
+	 */
+	spacing?: number;
+}
+
+/**
+ * The lane of the request queue a request is sent through. See [[Session.prioritize]].
+ */
+export type RequestPriority = 'normal' | 'high';
+
+/**
+ * Information about a request made by a [[Session]].
+ */
+export interface QueuedRequest {
+	/** The HTTP method of the JsonWireProtocol endpoint for the request. */
+	method: Method;
+
+	/** The path of the JsonWireProtocol endpoint for the request, relative to the session URL. */
+	path: string;
+
+	/** The lane of the request queue the request was sent through. */
+	priority: RequestPriority;
+
+	/** The time the request was made. */
+	queuedAt: number;
+
+	/** The time the request was sent to the remote server, if it has been sent. */
+	startedAt?: number;
+}
+
+interface QueueEntry {
+	request: QueuedRequest;
+
+	/** Sends the request. */
+	run(): void;
+
+	reject(error: Error): void;
+}
+
+/**
+ * The lifecycle state of a [[Session]]. See [[Session.state]].
+ */
+export type SessionState = 'creating' | 'active' | 'quitting' | 'quit';
+
+/**
+ * The event passed to listeners added with [[Session.onStateChange]].
+ */
+export interface SessionStateEvent extends EventTargettedObject<Session> {
+	type: 'statechange';
+
+	/** The new state of the session. */
+	state: SessionState;
+
+	/** The state of the session before the change. */
+	previousState: SessionState;
+}
+
+/**
+ * @deprecated Use [[WebDriverError]]
+ */
+export type SessionError = WebDriverError;
+
 /**
  * Decorator for the [[util.forCommand]] method
  */
@@ -1705,6 +2657,10 @@ function forCommand(properties: { usesElement?: boolean, createsContext?: boolea
 	};
 }
 
+function noop() {
+	// do nothing
+}
+
 /**
  * Finds and converts serialised DOM element objects into fully-featured typed Elements.
  *
@@ -1720,7 +2676,7 @@ function convertToElements(session: Session, value: any) {
 			value = value.map(convert);
 		}
 		else if (typeof value === 'object' && value !== null) {
-			if (value.ELEMENT) {
+			if (value.ELEMENT || value['element-6066-11e4-a52e-4f735466cecf']) {
 				value = new Element(value, session);
 			}
 			else {
@@ -1743,10 +2699,15 @@ function convertToElements(session: Session, value: any) {
  *
  * @private
  */
-function fixExecuteError(error: SessionError) {
+function fixExecuteError(error: WebDriverError) {
 	if (error.name === 'UnknownError') {
-		error.status = '17';
-		error.name = statusCodes[error.status][0];
+		const fixedError = createError(17, error.message);
+		fixedError.detail = error.detail;
+		fixedError.request = error.request;
+		fixedError.response = error.response;
+		fixedError.screenshot = error.screenshot;
+		fixedError.stack = error.stack;
+		throw fixedError;
 	}
 
 	throw error;
@@ -1790,6 +2751,37 @@ function pushCookieProperties(target: any[], source: any) {
 	});
 }
 
+/**
+ * Separates the optional element and the options passed to a gesture method.
+ */
+function getGestureArguments<T>(args: any[]): { element: Element, options: T } {
+	if (args[0] && !args[0].elementId) {
+		return { element: null, options: args[0] };
+	}
+
+	return { element: args[0] || null, options: args[1] || <T> {} };
+}
+
+/**
+ * Creates the path of each finger of a gesture.
+ *
+ * @param steps The number of movements in the gesture.
+ * @param getPositions A function that returns the position of each finger at a point in the gesture, from 0 to 1.
+ * @returns An array of the positions of each finger at the start and after each movement.
+ */
+function createGesturePaths(steps: number, getPositions: (progress: number) => { x: number, y: number }[]) {
+	steps = Math.max(1, Math.round(steps || 10));
+
+	const paths: { x: number, y: number }[][] = [];
+	for (let step = 0; step <= steps; ++step) {
+		getPositions(step / steps).forEach(function (position, finger) {
+			(paths[finger] = paths[finger] || []).push(position);
+		});
+	}
+
+	return paths;
+}
+
 /* istanbul ignore next */
 /**
  * Simulates a keyboard event as it would occur on Safari 7.
@@ -1876,6 +2868,260 @@ function simulateKeys(keys: string[]) {
 	}
 }
 
+/* istanbul ignore next */
+/**
+ * Simulates an HTML5 drag and drop operation.
+ *
+ * @private
+ * @param source The element to drag.
+ * @param target The element to drop the source element onto, or null to drop it at an offset.
+ * @param offset The offset from the centre of the source element to the drop point, if there is no target element.
+ * @returns 'dropped' if the drop target accepted the drop, 'cancelled' if the page cancelled the drag operation, or
+ * 'rejected' if the drop target did not accept the drop.
+ */
+function simulateDragAndDrop(source: HTMLElement, target: HTMLElement, offset: { x: number, y: number }) {
+	let dataTransfer: any;
+	try {
+		dataTransfer = new DataTransfer();
+	}
+	catch (error) {
+		// Older browsers do not allow DataTransfer objects to be created, so a minimal replacement is used
+		const data: { [type: string]: string } = {};
+		dataTransfer = {
+			dropEffect: 'move',
+			effectAllowed: 'all',
+			files: [],
+			items: [],
+			types: [],
+			setData: function (type: string, value: string) {
+				if (!(type in data)) {
+					dataTransfer.types.push(type);
+				}
+				data[type] = String(value);
+			},
+			getData: function (type: string) {
+				return type in data ? data[type] : '';
+			},
+			clearData: function (type?: string) {
+				for (let key in data) {
+					if (type == null || key === type) {
+						delete data[key];
+						dataTransfer.types.splice(dataTransfer.types.indexOf(key), 1);
+					}
+				}
+			},
+			setDragImage: function () {}
+		};
+	}
+
+	function getCentre(element: HTMLElement) {
+		const rect = element.getBoundingClientRect();
+		return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+	}
+
+	function dispatch(target: HTMLElement, type: string, position: { x: number, y: number }) {
+		const event: any = document.createEvent('Event');
+		event.initEvent(type, true, type !== 'dragleave' && type !== 'dragend');
+
+		const properties: { [key: string]: any } = {
+			dataTransfer: dataTransfer,
+			clientX: position.x,
+			clientY: position.y,
+			pageX: position.x + window.pageXOffset,
+			pageY: position.y + window.pageYOffset,
+			screenX: window.screenX + position.x,
+			screenY: window.screenY + position.y
+		};
+
+		for (let key in properties) {
+			try {
+				Object.defineProperty(event, key, { value: properties[key] });
+			}
+			catch (error) {
+				event[key] = properties[key];
+			}
+		}
+
+		return target.dispatchEvent(event);
+	}
+
+	const start = getCentre(source);
+	let end: { x: number, y: number };
+
+	if (target) {
+		end = getCentre(target);
+	}
+	else {
+		end = { x: start.x + offset.x, y: start.y + offset.y };
+		target = <HTMLElement> document.elementFromPoint(end.x, end.y) || document.body;
+	}
+
+	if (!dispatch(source, 'dragstart', start)) {
+		return 'cancelled';
+	}
+
+	dispatch(source, 'drag', start);
+	dispatch(target, 'dragenter', end);
+
+	// The drop target accepts the drop by cancelling the dragover event
+	const accepted = !dispatch(target, 'dragover', end);
+	if (accepted) {
+		dispatch(target, 'drop', end);
+	}
+	else {
+		dispatch(target, 'dragleave', end);
+	}
+
+	dispatch(source, 'dragend', end);
+	return accepted ? 'dropped' : 'rejected';
+}
+
+/* istanbul ignore next */
+/**
+ * Simulates a multi-finger touch gesture by dispatching touch events and, where they are supported, pointer events.
+ *
+ * @private
+ * @param element The element the gesture is centred on, or null to centre it on the viewport.
+ * @param paths The positions of each finger at each step of the gesture, relative to the centre of the gesture.
+ */
+function simulateGesture(element: HTMLElement, paths: { x: number, y: number }[][]) {
+	let centre: { x: number, y: number };
+	if (element) {
+		const rect = element.getBoundingClientRect();
+		centre = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+	}
+	else {
+		centre = { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+	}
+
+	const fingers = paths.map(function (path, index) {
+		const x = centre.x + path[0].x;
+		const y = centre.y + path[0].y;
+		return {
+			identifier: index,
+			// Touches, like touch pointers, keep targeting the element they started on
+			target: <HTMLElement> document.elementFromPoint(x, y) || element || document.body,
+			x: x,
+			y: y
+		};
+	});
+
+	function createEvent(type: string, properties: { [key: string]: any }, constructor: any) {
+		let event: any;
+		try {
+			event = new constructor(type, properties);
+		}
+		catch (error) {
+			event = document.createEvent('Event');
+			event.initEvent(type, true, properties.cancelable);
+
+			for (let key in properties) {
+				try {
+					Object.defineProperty(event, key, { value: properties[key] });
+				}
+				catch (error) {
+					event[key] = properties[key];
+				}
+			}
+		}
+
+		return event;
+	}
+
+	// Object spread cannot be used in this function, since the helper it compiles to does not exist in the page
+	function addPosition(properties: { [key: string]: any }, finger: typeof fingers[0]) {
+		properties.clientX = finger.x;
+		properties.clientY = finger.y;
+		properties.pageX = finger.x + window.pageXOffset;
+		properties.pageY = finger.y + window.pageYOffset;
+		properties.screenX = window.screenX + finger.x;
+		properties.screenY = window.screenY + finger.y;
+		return properties;
+	}
+
+	function createTouch(finger: typeof fingers[0]) {
+		const properties = addPosition({
+			identifier: finger.identifier,
+			target: finger.target,
+			radiusX: 1,
+			radiusY: 1,
+			rotationAngle: 0,
+			force: 0.5
+		}, finger);
+
+		try {
+			return new (<any> Touch)(properties);
+		}
+		catch (error) {
+			return properties;
+		}
+	}
+
+	function dispatchPointerEvents(type: string, down: boolean) {
+		if (typeof PointerEvent === 'undefined') {
+			return;
+		}
+
+		fingers.forEach(function (finger) {
+			finger.target.dispatchEvent(createEvent(type, addPosition({
+				bubbles: true,
+				cancelable: true,
+				pointerId: finger.identifier + 2,
+				pointerType: 'touch',
+				isPrimary: finger.identifier === 0,
+				button: type === 'pointermove' ? -1 : 0,
+				buttons: down ? 1 : 0,
+				width: 1,
+				height: 1,
+				pressure: down ? 0.5 : 0
+			}, finger), PointerEvent));
+		});
+	}
+
+	function dispatchTouchEvents(type: string) {
+		const touches = type === 'touchend' ? [] : fingers.map(createTouch);
+		const changedTouches = fingers.map(createTouch);
+		const targets: HTMLElement[] = [];
+
+		// Each element that is touched receives one event for all of its touches
+		fingers.forEach(function (finger) {
+			if (targets.indexOf(finger.target) === -1) {
+				targets.push(finger.target);
+			}
+		});
+
+		targets.forEach(function (target) {
+			function isOnTarget(touch: any) {
+				return touch.target === target;
+			}
+
+			target.dispatchEvent(createEvent(type, {
+				bubbles: true,
+				cancelable: true,
+				touches: touches,
+				targetTouches: touches.filter(isOnTarget),
+				changedTouches: changedTouches.filter(isOnTarget)
+			}, typeof TouchEvent === 'undefined' ? null : TouchEvent));
+		});
+	}
+
+	dispatchPointerEvents('pointerdown', true);
+	dispatchTouchEvents('touchstart');
+
+	for (let step = 1; step < paths[0].length; ++step) {
+		fingers.forEach(function (finger, index) {
+			finger.x = centre.x + paths[index][step].x;
+			finger.y = centre.y + paths[index][step].y;
+		});
+
+		dispatchPointerEvents('pointermove', true);
+		dispatchTouchEvents('touchmove');
+	}
+
+	dispatchPointerEvents('pointerup', false);
+	dispatchTouchEvents('touchend');
+}
+
 /* istanbul ignore next */
 /**
  * Simulates a mouse event as it would occur on Safari 7.
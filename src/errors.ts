@@ -0,0 +1,186 @@
+import { Response } from '@dojo/core/request';
+import statusCodes, { w3cErrorCodes, w3cOnlyErrors } from './lib/statusCodes';
+
+/**
+ * The base class of all errors reported by a remote WebDriver server. The `name` of each error is the
+ * JsonWireProtocol name of its status code (e.g. 'NoSuchElement'), so existing code that checks error names continues
+ * to work, but errors should be identified using `instanceof`:
+ *
+ * ```js
+ * session.findById('missing').catch(function (error) {
+ *     if (error instanceof NoSuchElementError) {
+ *         // ...
+ *     }
+ * });
+ * ```
+ *
+ * Use [[createError]] to create an error of the correct class from a JsonWireProtocol status code or W3C error code.
+ */
+export class WebDriverError extends Error {
+	/**
+	 * The JsonWireProtocol status code of the error. Errors that only exist in the W3C WebDriver standard have no
+	 * status code.
+	 */
+	status: number;
+
+	/**
+	 * The error data returned by the remote server.
+	 */
+	detail: any;
+
+	/**
+	 * The request that caused the error, if the error was returned by a remote server.
+	 */
+	request: { url: string, method: string, data: any };
+
+	/**
+	 * The HTTP response containing the error, if the error was returned by a remote server.
+	 */
+	response: Response;
+
+	/**
+	 * A PNG screenshot of the remote environment at the time of the error, if one was provided by the remote server.
+	 */
+	screenshot: Buffer;
+
+	/**
+	 * @param message The error message. Defaults to the description of the status code of the error.
+	 */
+	constructor(message?: string) {
+		super(message);
+
+		// When targeting ES5, the object returned by the Error constructor is a plain Error, so it needs to be
+		// converted into an instance of the actual error class
+		(<any> Object).setPrototypeOf(this, new.target.prototype);
+
+		this.message = message ||
+			(this.status != null ? (<any> statusCodes)[this.status][1] : w3cOnlyDescriptions[this.name]) || '';
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, new.target);
+		}
+	}
+}
+
+WebDriverError.prototype.name = 'WebDriverError';
+
+export class NoSuchDriverError extends WebDriverError {}
+export class NoSuchElementError extends WebDriverError {}
+export class NoSuchFrameError extends WebDriverError {}
+export class UnknownCommandError extends WebDriverError {}
+export class StaleElementReferenceError extends WebDriverError {}
+export class ElementNotVisibleError extends WebDriverError {}
+export class InvalidElementStateError extends WebDriverError {}
+export class UnknownError extends WebDriverError {}
+export class ElementIsNotSelectableError extends WebDriverError {}
+export class JavaScriptError extends WebDriverError {}
+export class XPathLookupError extends WebDriverError {}
+export class TimeoutError extends WebDriverError {}
+export class NoSuchWindowError extends WebDriverError {}
+export class InvalidCookieDomainError extends WebDriverError {}
+export class UnableToSetCookieError extends WebDriverError {}
+export class UnexpectedAlertOpenError extends WebDriverError {}
+export class NoAlertOpenError extends WebDriverError {}
+export class ScriptTimeoutError extends WebDriverError {}
+export class InvalidElementCoordinatesError extends WebDriverError {}
+export class IMENotAvailableError extends WebDriverError {}
+export class IMEEngineActivationFailedError extends WebDriverError {}
+export class InvalidSelectorError extends WebDriverError {}
+export class SessionNotCreatedError extends WebDriverError {}
+export class MoveTargetOutOfBoundsError extends WebDriverError {}
+export class ElementNotInteractableError extends WebDriverError {}
+export class InvalidArgumentError extends WebDriverError {}
+export class NoSuchCookieError extends WebDriverError {}
+export class UnableToCaptureScreenError extends WebDriverError {}
+export class ElementClickInterceptedError extends WebDriverError {}
+
+/**
+ * Error classes keyed by JsonWireProtocol status code.
+ */
+const errorClasses: { [status: number]: typeof WebDriverError } = {};
+
+function registerError(status: number, ErrorClass: typeof WebDriverError) {
+	ErrorClass.prototype.name = (<any> statusCodes)[status][0];
+	ErrorClass.prototype.status = status;
+	errorClasses[status] = ErrorClass;
+}
+
+registerError(6, NoSuchDriverError);
+registerError(7, NoSuchElementError);
+registerError(8, NoSuchFrameError);
+registerError(9, UnknownCommandError);
+registerError(10, StaleElementReferenceError);
+registerError(11, ElementNotVisibleError);
+registerError(12, InvalidElementStateError);
+registerError(13, UnknownError);
+registerError(15, ElementIsNotSelectableError);
+registerError(17, JavaScriptError);
+registerError(19, XPathLookupError);
+registerError(21, TimeoutError);
+registerError(23, NoSuchWindowError);
+registerError(24, InvalidCookieDomainError);
+registerError(25, UnableToSetCookieError);
+registerError(26, UnexpectedAlertOpenError);
+registerError(27, NoAlertOpenError);
+registerError(28, ScriptTimeoutError);
+registerError(29, InvalidElementCoordinatesError);
+registerError(30, IMENotAvailableError);
+registerError(31, IMEEngineActivationFailedError);
+registerError(32, InvalidSelectorError);
+registerError(33, SessionNotCreatedError);
+registerError(34, MoveTargetOutOfBoundsError);
+
+/**
+ * Error classes for errors that only exist in the W3C WebDriver standard, keyed by W3C error code.
+ */
+const w3cOnlyErrorClasses: { [error: string]: typeof WebDriverError } = {};
+
+/**
+ * Descriptions of errors that only exist in the W3C WebDriver standard, keyed by error name.
+ */
+const w3cOnlyDescriptions: { [name: string]: string } = {};
+
+function registerW3cOnlyError(error: string, ErrorClass: typeof WebDriverError) {
+	const [ name, description ] = w3cOnlyErrors[error];
+	ErrorClass.prototype.name = name;
+	w3cOnlyErrorClasses[error] = ErrorClass;
+	w3cOnlyDescriptions[name] = description;
+}
+
+registerW3cOnlyError('element not interactable', ElementNotInteractableError);
+registerW3cOnlyError('invalid argument', InvalidArgumentError);
+registerW3cOnlyError('no such cookie', NoSuchCookieError);
+registerW3cOnlyError('unable to capture screen', UnableToCaptureScreenError);
+registerW3cOnlyError('element click intercepted', ElementClickInterceptedError);
+
+/**
+ * The error returned by a [[Session]] when a command is called after the session has been quit. It is raised by
+ * Leadfoot without contacting the remote server, and is a [[NoSuchDriverError]] so that code written for the errors
+ * returned by remote servers continues to work.
+ */
+export class SessionClosedError extends NoSuchDriverError {}
+
+/**
+ * Gets the error class for a JsonWireProtocol status code or W3C error code. Unrecognised codes are treated as
+ * [[UnknownError]].
+ *
+ * @param code A numeric JsonWireProtocol status code, or a W3C error code like 'no such element'.
+ */
+export function getErrorClass(code: number | string): typeof WebDriverError {
+	if (typeof code === 'string' && isNaN(Number(code))) {
+		return errorClasses[w3cErrorCodes[code]] || w3cOnlyErrorClasses[code] || UnknownError;
+	}
+
+	return errorClasses[Number(code)] || UnknownError;
+}
+
+/**
+ * Creates an error of the correct class for a JsonWireProtocol status code or W3C error code.
+ *
+ * @param code A numeric JsonWireProtocol status code, or a W3C error code like 'no such element'.
+ * @param message The error message. Defaults to the description of the status code.
+ */
+export function createError(code: number | string, message?: string): WebDriverError {
+	const ErrorClass = getErrorClass(code);
+	return new ErrorClass(message);
+}
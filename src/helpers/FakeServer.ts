@@ -0,0 +1,378 @@
+import * as http from 'http';
+import Task from '@dojo/core/async/Task';
+
+/**
+ * A request received by a [[FakeServer]].
+ */
+export interface FakeRequest {
+	/** The HTTP method of the request, in lowercase. */
+	method: string;
+
+	/** The path of the request relative to the base path of the server, without a leading slash. */
+	path: string;
+
+	/** The headers of the request. Header names are lowercase. */
+	headers: { [name: string]: string | string[] };
+
+	/** The request body, parsed as JSON if possible. */
+	body: any;
+
+	/** The unparsed request body. */
+	rawBody: string;
+}
+
+/**
+ * A canned response sent by a [[FakeServer]].
+ */
+export interface FakeResponse {
+	/** The HTTP status code. Defaults to 200. */
+	status?: number;
+
+	/** Additional response headers. */
+	headers?: { [name: string]: string };
+
+	/**
+	 * The response body. Strings are sent as `text/plain`; any other value is serialised and sent as
+	 * `application/json`.
+	 */
+	body?: any;
+
+	/** A delay, in milliseconds, before the response is sent. */
+	delay?: number;
+
+	/** If true, the connection is dropped instead of sending a response. */
+	drop?: boolean;
+}
+
+/**
+ * A canned response, or a function that generates a response for a request.
+ */
+export type FakeResponder = FakeResponse | ((request: FakeRequest) => FakeResponse | Task<FakeResponse>);
+
+interface FakeRoute {
+	method: string;
+	path: string | RegExp;
+	respond: FakeResponder;
+	remaining: number;
+}
+
+/**
+ * FakeServer is a scriptable WebDriver HTTP server that runs inside the current process. A [[Server]] can be pointed
+ * at its [[FakeServer.url]] in order to test how Leadfoot handles particular responses without needing a real
+ * browser or driver.
+ *
+ * ```js
+ * var fake = new FakeServer();
+ * fake.route('post', 'session', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+ * fake.route('delete', 'session/*', noContent());
+ * fake.start().then(function (url) {
+ *     var server = new Server(url);
+ *     // ...
+ * });
+ * ```
+ *
+ * Route paths are matched against the request path relative to the base path of the server, without a leading slash
+ * (the same form used by [[Server.get]]). In string paths, `*` matches a single path segment. Routes are matched
+ * most-recently-added first, so a test can override a more general route. Requests that do not match any route
+ * receive a 404 response, which is treated by Leadfoot as an UnknownCommand error.
+ */
+export default class FakeServer {
+	/**
+	 * The base path that WebDriver requests are served from.
+	 */
+	basePath: string;
+
+	/**
+	 * All requests received by the server, in order.
+	 */
+	requests: FakeRequest[] = [];
+
+	/**
+	 * Requests received by the server that did not match any route.
+	 */
+	unmatchedRequests: FakeRequest[] = [];
+
+	private _routes: FakeRoute[] = [];
+	private _server: http.Server;
+	private _url: string;
+
+	/**
+	 * @param basePath The base path that WebDriver requests will be served from. Defaults to '/wd/hub/'.
+	 */
+	constructor(basePath: string = '/wd/hub/') {
+		this.basePath = ('/' + basePath + '/').replace(/\/+/g, '/');
+	}
+
+	/**
+	 * The URL of the WebDriver endpoint of the server. Only available once the server has been started.
+	 *
+	 * @readonly
+	 */
+	get url() {
+		return this._url;
+	}
+
+	/**
+	 * Starts the server on a random local port.
+	 *
+	 * @returns A Task that resolves to the URL of the WebDriver endpoint of the server.
+	 */
+	start(): Task<string> {
+		return new Task<string>((resolve, reject) => {
+			this._server = http.createServer((request, response) => this._handleRequest(request, response));
+			this._server.on('error', reject);
+			this._server.listen(0, '127.0.0.1', () => {
+				this._url = 'http://127.0.0.1:' + this._server.address().port + this.basePath;
+				resolve(this._url);
+			});
+		});
+	}
+
+	/**
+	 * Stops the server.
+	 */
+	stop(): Task<void> {
+		return new Task<void>(resolve => {
+			if (!this._server) {
+				resolve();
+				return;
+			}
+
+			this._server.close(() => resolve());
+			this._server = null;
+			this._url = null;
+		});
+	}
+
+	/**
+	 * Adds a route that responds to every matching request.
+	 *
+	 * @param method The HTTP method to match.
+	 * @param path The path to match.
+	 * @param respond The response to send to matching requests.
+	 */
+	route(method: string, path: string | RegExp, respond: FakeResponder) {
+		return this.expect(method, path, respond, Infinity);
+	}
+
+	/**
+	 * Adds a route that only responds to a limited number of matching requests. Routes that have not yet been
+	 * consumed are listed in [[FakeServer.pendingRoutes]].
+	 *
+	 * @param method The HTTP method to match.
+	 * @param path The path to match.
+	 * @param respond The response to send to matching requests.
+	 * @param times The number of requests to respond to. Defaults to 1.
+	 */
+	expect(method: string, path: string | RegExp, respond: FakeResponder, times: number = 1) {
+		this._routes.unshift({ method: method.toLowerCase(), path, respond, remaining: times });
+		return this;
+	}
+
+	/**
+	 * Routes added with [[FakeServer.expect]] that have not received all of their expected requests.
+	 *
+	 * @readonly
+	 */
+	get pendingRoutes() {
+		return this._routes.filter(route => route.remaining > 0 && route.remaining !== Infinity).map(route => {
+			return { method: route.method, path: route.path, remaining: route.remaining };
+		});
+	}
+
+	/**
+	 * Removes all routes and clears the request logs.
+	 */
+	reset() {
+		this._routes = [];
+		this.requests = [];
+		this.unmatchedRequests = [];
+	}
+
+	private _handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+		let rawBody = '';
+		request.setEncoding('utf8');
+		request.on('data', (chunk: string) => {
+			rawBody += chunk;
+		});
+		request.on('end', () => {
+			let body: any = rawBody;
+			try {
+				body = rawBody ? JSON.parse(rawBody) : null;
+			}
+			catch (error) {
+				// The body is not JSON; leave it as a string
+			}
+
+			let path = request.url.split('?')[0];
+			if (path.indexOf(this.basePath) === 0) {
+				path = path.slice(this.basePath.length);
+			}
+
+			const fakeRequest: FakeRequest = {
+				method: request.method.toLowerCase(),
+				path,
+				headers: request.headers,
+				body,
+				rawBody
+			};
+			this.requests.push(fakeRequest);
+
+			const route = this._findRoute(fakeRequest);
+			if (!route) {
+				this.unmatchedRequests.push(fakeRequest);
+			}
+
+			Task.resolve(route ? getResponse(route.respond, fakeRequest) : {
+				status: 404,
+				body: `No route for ${fakeRequest.method.toUpperCase()} ${path}`
+			}).then(fakeResponse => {
+				return sendResponse(request, response, fakeResponse);
+			}, error => {
+				return sendResponse(request, response, { status: 500, body: String(error && error.stack || error) });
+			});
+		});
+	}
+
+	private _findRoute(request: FakeRequest) {
+		for (let i = 0; i < this._routes.length; ++i) {
+			const route = this._routes[i];
+			if (route.remaining > 0 && route.method === request.method && matchPath(route.path, request.path)) {
+				--route.remaining;
+				return route;
+			}
+		}
+
+		return null;
+	}
+}
+
+/**
+ * Creates a successful JsonWireProtocol response.
+ *
+ * @param value The value of the response.
+ * @param sessionId The session ID to include in the response.
+ */
+export function jsonWireSuccess(value?: any, sessionId?: string): FakeResponse {
+	return { body: { status: 0, sessionId: sessionId || null, value: value === undefined ? null : value } };
+}
+
+/**
+ * Creates a JsonWireProtocol error response.
+ *
+ * @param status The JsonWireProtocol status code of the error.
+ * @param message The error message.
+ * @param httpStatus The HTTP status of the response. Defaults to 500.
+ */
+export function jsonWireError(status: number, message?: string, httpStatus: number = 500): FakeResponse {
+	return { status: httpStatus, body: { status, value: { message: message || '' } } };
+}
+
+/**
+ * Creates a successful W3C WebDriver response.
+ *
+ * @param value The value of the response.
+ */
+export function w3cSuccess(value?: any): FakeResponse {
+	return { body: { value: value === undefined ? null : value } };
+}
+
+/**
+ * Creates a W3C WebDriver error response.
+ *
+ * @param error The W3C error code, like 'no such element'.
+ * @param message The error message.
+ * @param httpStatus The HTTP status of the response. Defaults to 500.
+ */
+export function w3cError(error: string, message?: string, httpStatus: number = 500): FakeResponse {
+	return { status: httpStatus, body: { value: { error, message: message || '', stacktrace: '' } } };
+}
+
+/**
+ * Creates an empty 204 response, as sent by at least ChromeDriver for successful DELETE requests.
+ */
+export function noContent(): FakeResponse {
+	return { status: 204 };
+}
+
+/**
+ * Creates a redirect response, as sent by JsonWireProtocol servers prior to June 2013 for new session requests.
+ *
+ * @param location The URL to redirect to. May be relative to the request URL.
+ * @param httpStatus The HTTP status of the response. Defaults to 303.
+ */
+export function redirect(location: string, httpStatus: number = 303): FakeResponse {
+	return { status: httpStatus, headers: { Location: location } };
+}
+
+/**
+ * Creates a malformed error response like those sent by ios-driver 0.6.6-SNAPSHOT, which puts the error message at
+ * the top level of the response instead of on the `value` key.
+ *
+ * @param message The error message.
+ * @param httpStatus The HTTP status of the response. Defaults to 500.
+ */
+export function iosDriverError(message: string, httpStatus: number = 500): FakeResponse {
+	return { status: httpStatus, body: { status: 13, message } };
+}
+
+/**
+ * Creates a response that drops the connection without responding, like a proxy or grid hub that has crashed.
+ */
+export function dropConnection(): FakeResponse {
+	return { drop: true };
+}
+
+function getResponse(respond: FakeResponder, request: FakeRequest): FakeResponse | Task<FakeResponse> {
+	return typeof respond === 'function' ? respond(request) : respond;
+}
+
+function matchPath(pattern: string | RegExp, path: string) {
+	if (typeof pattern === 'string') {
+		const patternParts = pattern.split('/');
+		const pathParts = path.split('/');
+
+		return patternParts.length === pathParts.length && patternParts.every((part, index) => {
+			return part === '*' || part === pathParts[index];
+		});
+	}
+
+	return pattern.test(path);
+}
+
+function sendResponse(request: http.IncomingMessage, response: http.ServerResponse, fakeResponse: FakeResponse) {
+	const headers: { [name: string]: string } = {};
+	let body: string;
+
+	if (fakeResponse.body != null) {
+		if (typeof fakeResponse.body === 'string') {
+			headers['Content-Type'] = 'text/plain;charset=utf-8';
+			body = fakeResponse.body;
+		}
+		else {
+			headers['Content-Type'] = 'application/json;charset=utf-8';
+			body = JSON.stringify(fakeResponse.body);
+		}
+	}
+
+	for (let name in fakeResponse.headers) {
+		headers[name] = fakeResponse.headers[name];
+	}
+
+	function send() {
+		if (fakeResponse.drop) {
+			request.connection.destroy();
+			return;
+		}
+
+		response.writeHead(fakeResponse.status || 200, headers);
+		response.end(body);
+	}
+
+	if (fakeResponse.delay) {
+		setTimeout(send, fakeResponse.delay);
+	}
+	else {
+		send();
+	}
+}
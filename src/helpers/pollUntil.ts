@@ -1,6 +1,7 @@
 import * as util from '../lib/util';
 import Command from '../Command';
 import Task from '@dojo/core/async/Task';
+import { createError } from '../errors';
 
 /**
  * A [[Command]] helper that polls for a value within the client environment until the value exists
@@ -89,9 +90,7 @@ export default function pollUntil(...allArgs: any[]): () => Task<any> {
 					throw resultOrError;
 				}
 				if (resultOrError == null) {
-					const error = new Error('Polling timed out with no result');
-					error.name = 'ScriptTimeout';
-					throw error;
+					throw createError(28, 'Polling timed out with no result');
 				}
 				return resultOrError;
 			}
@@ -18,6 +18,11 @@ export { default as Element } from './Element';
  */
 export { default as Command } from './Command';
 
+/**
+ * @see [[lib/Actions]]
+ */
+export { default as Actions } from './lib/Actions';
+
 /**
  * @see [[keys]]
  */
@@ -28,4 +33,6 @@ export { default as keys } from './keys';
  */
 export { default as pollUntil } from './helpers/pollUntil';
 
+export * from './errors';
+
 export * from './interfaces';
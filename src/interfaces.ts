@@ -1,8 +1,11 @@
 import Task from '@dojo/core/async/Task';
 import { Url } from 'url';
+import { QuirkProfile } from './lib/quirks';
 
 export interface Capabilities {
 	_filled?: boolean;
+	_quirks?: QuirkProfile;
+	_reported?: Capabilities;
 	applicationCacheEnabled?: boolean;
 	brokenActiveElement?: boolean;
 	brokenClick?: boolean;
@@ -15,6 +18,7 @@ export interface Capabilities {
 	brokenElementDisplayedOffscreen?: boolean;
 	brokenElementDisplayedOpacity?: boolean;
 	brokenElementPosition?: boolean;
+	brokenElementScreenshot?: boolean;
 	brokenElementSerialization?: boolean;
 	brokenEmptyPost?: boolean;
 	brokenExecuteElementReturn?: boolean;
@@ -22,6 +26,7 @@ export interface Capabilities {
 	brokenExecuteUndefinedReturn?: boolean;
 	brokenFileSendKeys?: boolean;
 	brokenFlickFinger?: boolean;
+	brokenFullscreenWindow?: boolean;
 	brokenHtmlMouseMove?: boolean;
 	brokenHtmlTagName?: boolean;
 	brokenLinkTextLocator?: boolean;
@@ -29,6 +34,7 @@ export interface Capabilities {
 	brokenMouseEvents?: boolean;
 	brokenMoveFinger?: boolean;
 	brokenNavigation?: boolean;
+	brokenNewWindow?: boolean;
 	brokenNullGetSpecAttribute?: boolean;
 	brokenOptionSelect?: boolean;
 	brokenPageSource?: boolean;
@@ -36,10 +42,12 @@ export interface Capabilities {
 	brokenRefresh?: boolean;
 	brokenSendKeys?: boolean;
 	brokenSubmitElement?: boolean;
+	brokenTouchActions?: boolean;
 	brokenTouchScroll?: boolean;
 	brokenWhitespaceNormalization?: boolean;
 	brokenWindowClose?: boolean;
 	brokenWindowPosition?: boolean;
+	brokenWindowRect?: boolean;
 	brokenWindowSize?: boolean;
 	brokenWindowSwitch?: boolean;
 	brokenZeroTimeout?: boolean;
@@ -61,11 +69,13 @@ export interface Capabilities {
 	platform?: string;
 	platformName?: string;
 	platformVersion?: string;
+	quirks?: string | QuirkProfile;
 	remoteFiles?: boolean;
 	returnsFromClickImmediately?: boolean;
 	rotatable?: boolean;
 	scriptedParentFrameCrashesBrowser?: boolean;
 	shortcutKey?: any;
+	supportsConcurrentRequests?: boolean;
 	supportsCssTransforms?: boolean;
 	supportsExecuteAsync?: boolean;
 	supportsKeysCommand?: boolean;
@@ -101,6 +111,13 @@ export interface WebDriverCookie {
 	expiry?: string | Date | number;
 }
 
+export interface WindowRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
 export interface LeadfootURL extends Url {
 	username?: string;
 	password?: string;
@@ -0,0 +1,385 @@
+import Element from '../Element';
+
+/**
+ * The type of device a pointer input source represents.
+ */
+export type PointerType = 'mouse' | 'pen' | 'touch';
+
+/**
+ * The position a pointer or wheel action is relative to: the top-left corner of the viewport, the current position
+ * of the pointer, or the centre of an element.
+ */
+export type ActionOrigin = 'viewport' | 'pointer' | Element;
+
+/**
+ * The position and duration of a pointer movement.
+ */
+export interface PointerMoveOptions {
+	/** The x-offset of the pointer from the origin, in CSS pixels. Defaults to 0. */
+	x?: number;
+
+	/** The y-offset of the pointer from the origin, in CSS pixels. Defaults to 0. */
+	y?: number;
+
+	/** The position the offsets are relative to. Defaults to 'viewport'. */
+	origin?: ActionOrigin;
+
+	/** The time the movement takes, in milliseconds. Defaults to 0. */
+	duration?: number;
+}
+
+/**
+ * The properties of a pressed pointer. Properties other than `button` are only meaningful for pen and touch pointers.
+ */
+export interface PointerProperties {
+	/** The button that is pressed. 0 is the primary button. Defaults to 0. */
+	button?: number;
+
+	/** The width of the contact area, in CSS pixels. */
+	width?: number;
+
+	/** The height of the contact area, in CSS pixels. */
+	height?: number;
+
+	/** The normalised pressure of the pointer, from 0 to 1. */
+	pressure?: number;
+
+	/** The normalised tangential pressure of the pointer, from -1 to 1. */
+	tangentialPressure?: number;
+
+	/** The tilt of the pointer along the x-axis, in degrees from -90 to 90. */
+	tiltX?: number;
+
+	/** The tilt of the pointer along the y-axis, in degrees from -90 to 90. */
+	tiltY?: number;
+
+	/** The clockwise rotation of the pointer, in degrees from 0 to 359. */
+	twist?: number;
+}
+
+/**
+ * The position, amount, and duration of a scroll.
+ */
+export interface ScrollOptions {
+	/** The x-offset of the scroll position from the origin, in CSS pixels. Defaults to 0. */
+	x?: number;
+
+	/** The y-offset of the scroll position from the origin, in CSS pixels. Defaults to 0. */
+	y?: number;
+
+	/** The distance to scroll horizontally, in CSS pixels. Defaults to 0. */
+	deltaX?: number;
+
+	/** The distance to scroll vertically, in CSS pixels. Defaults to 0. */
+	deltaY?: number;
+
+	/** The position the offsets are relative to. Defaults to 'viewport'. */
+	origin?: 'viewport' | Element;
+
+	/** The time the scroll takes, in milliseconds. Defaults to 0. */
+	duration?: number;
+}
+
+/**
+ * The actions of a single input source, in the format used by the W3C WebDriver Perform Actions command.
+ */
+export interface ActionSequence {
+	/** The type of the input source. */
+	type: 'none' | 'key' | 'pointer' | 'wheel';
+
+	/** The ID of the input source. */
+	id: string;
+
+	/** Additional parameters of the input source. Only used by pointer input sources. */
+	parameters?: { pointerType: PointerType };
+
+	/** The actions of the input source, one per tick. */
+	actions: { type: string, [key: string]: any }[];
+}
+
+interface InputSource {
+	type: ActionSequence['type'];
+	parameters?: { pointerType: PointerType };
+}
+
+interface Tick {
+	/** The action of each input source that does something during the tick, keyed by input source ID. */
+	actions: { [id: string]: { type: string, [key: string]: any } };
+
+	/** The duration of the tick, for ticks created by [[Actions.pause]]. */
+	duration?: number;
+}
+
+/**
+ * A builder for sequences of low-level input actions that are performed with [[Session.performActions]].
+ *
+ * Actions are performed in ticks. By default, each call to the builder adds an action in a new tick, so actions are
+ * performed one after the other, across all input sources. To perform actions of different input sources at the
+ * same time, like the movement of two fingers in a pinch gesture, add them inside a call to [[Actions.tick]].
+ *
+ * Input sources are identified by ID. The default keyboard, mouse, and wheel input sources are 'keyboard', 'mouse',
+ * and 'wheel'; these are the same input sources that are used by the legacy mouse and keyboard methods of
+ * [[Session]] when speaking to a W3C WebDriver server. Other pointers, like pens or fingers, are declared with
+ * [[Actions.pointer]].
+ *
+ * ```js
+ * var actions = new Actions()
+ *     .pointerMove({ origin: source })
+ *     .pointerDown()
+ *     .pointerMove({ origin: target, duration: 250 })
+ *     .pointerUp();
+ *
+ * var pinch = new Actions()
+ *     .pointer('finger1', 'touch')
+ *     .pointer('finger2', 'touch')
+ *     .tick(function (actions) {
+ *         actions.pointerMove({ x: 100, y: 100 }, 'finger1').pointerMove({ x: 200, y: 200 }, 'finger2');
+ *     })
+ *     .tick(function (actions) {
+ *         actions.pointerDown(0, 'finger1').pointerDown(0, 'finger2');
+ *     });
+ *
+ * session.performActions(actions);
+ * ```
+ */
+export default class Actions {
+	private _sources: { [id: string]: InputSource } = {};
+	private _sourceIds: string[] = [];
+	private _ticks: Tick[] = [];
+	private _currentTick: Tick = null;
+
+	/**
+	 * Declares a pointer input source. Pointers that are used without being declared are mice.
+	 *
+	 * @param id The ID of the input source.
+	 * @param pointerType The type of the pointer.
+	 */
+	pointer(id: string, pointerType: PointerType = 'mouse') {
+		this._getSource(id, 'pointer', pointerType);
+		return this;
+	}
+
+	/**
+	 * Presses a key.
+	 *
+	 * @param value The key to press. Use the values from [[keys]] for special keys.
+	 * @param id The ID of the keyboard input source.
+	 */
+	keyDown(value: string, id: string = 'keyboard') {
+		return this._add(id, 'key', { type: 'keyDown', value });
+	}
+
+	/**
+	 * Releases a key.
+	 *
+	 * @param value The key to release. Use the values from [[keys]] for special keys.
+	 * @param id The ID of the keyboard input source.
+	 */
+	keyUp(value: string, id: string = 'keyboard') {
+		return this._add(id, 'key', { type: 'keyUp', value });
+	}
+
+	/**
+	 * Presses and releases each character of a string in turn.
+	 *
+	 * @param text The text to type.
+	 * @param id The ID of the keyboard input source.
+	 */
+	type(text: string, id: string = 'keyboard') {
+		text.split('').forEach(key => {
+			this.keyDown(key, id).keyUp(key, id);
+		});
+		return this;
+	}
+
+	/**
+	 * Moves a pointer.
+	 *
+	 * @param options The position and duration of the movement.
+	 * @param id The ID of the pointer input source.
+	 */
+	pointerMove(options: PointerMoveOptions = {}, id: string = 'mouse') {
+		return this._add(id, 'pointer', {
+			type: 'pointerMove',
+			duration: Math.round(options.duration || 0),
+			origin: options.origin || 'viewport',
+			x: Math.round(options.x || 0),
+			y: Math.round(options.y || 0)
+		});
+	}
+
+	/**
+	 * Presses a pointer button, or touches the screen with a pen or finger.
+	 *
+	 * @param button The button to press, or the properties of the pressed pointer. Defaults to the primary button.
+	 * @param id The ID of the pointer input source.
+	 */
+	pointerDown(button: number | PointerProperties = 0, id: string = 'mouse') {
+		const properties = typeof button === 'number' ? { button } : button;
+		return this._add(id, 'pointer', { button: 0, ...properties, type: 'pointerDown' });
+	}
+
+	/**
+	 * Releases a pointer button, or lifts a pen or finger from the screen.
+	 *
+	 * @param button The button to release. Defaults to the primary button.
+	 * @param id The ID of the pointer input source.
+	 */
+	pointerUp(button: number = 0, id: string = 'mouse') {
+		return this._add(id, 'pointer', { type: 'pointerUp', button });
+	}
+
+	/**
+	 * Cancels the current action of a pointer.
+	 *
+	 * @param id The ID of the pointer input source.
+	 */
+	pointerCancel(id: string = 'mouse') {
+		return this._add(id, 'pointer', { type: 'pointerCancel' });
+	}
+
+	/**
+	 * Scrolls using a wheel.
+	 *
+	 * @param options The position, amount, and duration of the scroll.
+	 * @param id The ID of the wheel input source.
+	 */
+	scroll(options: ScrollOptions, id: string = 'wheel') {
+		return this._add(id, 'wheel', {
+			type: 'scroll',
+			duration: Math.round(options.duration || 0),
+			origin: options.origin || 'viewport',
+			x: Math.round(options.x || 0),
+			y: Math.round(options.y || 0),
+			deltaX: Math.round(options.deltaX || 0),
+			deltaY: Math.round(options.deltaY || 0)
+		});
+	}
+
+	/**
+	 * Waits before performing the next action. If an input source is specified, only that input source waits, which
+	 * is useful inside [[Actions.tick]]; otherwise, all input sources wait.
+	 *
+	 * @param duration The time to wait, in milliseconds.
+	 * @param id The ID of the input source that waits.
+	 */
+	pause(duration: number = 0, id?: string) {
+		duration = Math.round(duration);
+
+		if (id) {
+			const source = this._sources[id];
+			return this._add(id, source ? source.type : 'none', { type: 'pause', duration });
+		}
+
+		if (this._currentTick) {
+			throw new Error('A pause of all input sources cannot be added inside a tick');
+		}
+
+		this._ticks.push({ actions: {}, duration });
+		return this;
+	}
+
+	/**
+	 * Groups actions of different input sources so that they are performed at the same time. Each input source may
+	 * only perform one action in a tick.
+	 *
+	 * @param callback A function that adds the actions of the tick to the builder it is passed.
+	 */
+	tick(callback: (actions: this) => void) {
+		if (this._currentTick) {
+			throw new Error('Ticks cannot be nested');
+		}
+
+		const tick: Tick = { actions: {} };
+		this._currentTick = tick;
+
+		try {
+			callback(this);
+		}
+		finally {
+			this._currentTick = null;
+		}
+
+		if (Object.keys(tick.actions).length) {
+			this._ticks.push(tick);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Converts the actions into the action sequences used by the W3C WebDriver Perform Actions command. Each input
+	 * source is idle, with a pause, during ticks in which it does not perform an action.
+	 */
+	toJSON(): ActionSequence[] {
+		return this._sourceIds.map(id => {
+			const source = this._sources[id];
+			const sequence: ActionSequence = {
+				type: source.type,
+				id,
+				actions: this._ticks.map(tick => tick.actions[id] || { type: 'pause', duration: tick.duration || 0 })
+			};
+
+			if (source.parameters) {
+				sequence.parameters = source.parameters;
+			}
+
+			return sequence;
+		});
+	}
+
+	/**
+	 * Gets an input source, creating it if it has not been used yet.
+	 */
+	private _getSource(id: string, type: InputSource['type'], pointerType?: PointerType) {
+		let source = this._sources[id];
+
+		// An input source that has only paused can still become any other type of input source
+		if (source && source.type === 'none' && type !== 'none') {
+			source.type = type;
+		}
+
+		if (!source) {
+			source = this._sources[id] = { type };
+			this._sourceIds.push(id);
+		}
+
+		if (source.type !== type && type !== 'none') {
+			throw new Error('Input source "' + id + '" is a ' + source.type + ' input source, not a ' + type +
+				' input source');
+		}
+
+		if (source.type === 'pointer') {
+			if (pointerType && source.parameters && source.parameters.pointerType !== pointerType) {
+				throw new Error('Pointer "' + id + '" is a ' + source.parameters.pointerType + ', not a ' +
+					pointerType);
+			}
+
+			if (!source.parameters) {
+				source.parameters = { pointerType: pointerType || 'mouse' };
+			}
+		}
+
+		return source;
+	}
+
+	/**
+	 * Adds an action to the current tick, or to a new tick if no tick is being built.
+	 */
+	private _add(id: string, type: InputSource['type'], action: { type: string, [key: string]: any }) {
+		this._getSource(id, type);
+
+		if (this._currentTick) {
+			if (this._currentTick.actions[id]) {
+				throw new Error('Input source "' + id + '" already has an action in this tick');
+			}
+
+			this._currentTick.actions[id] = action;
+		}
+		else {
+			this._ticks.push({ actions: { [id]: action } });
+		}
+
+		return this;
+	}
+}
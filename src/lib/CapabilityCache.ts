@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import { Capabilities } from '../interfaces';
+
+/**
+ * A cached set of detected capabilities.
+ */
+export interface CacheEntry {
+	/** The capabilities that were detected for the environment. */
+	capabilities: Capabilities;
+
+	/** The time the capabilities were detected, in milliseconds since the epoch. */
+	created: number;
+}
+
+/**
+ * A CapabilityCache stores the results of the capability detection performed by [[Server]] so that new sessions in an
+ * environment that has already been tested do not need to run the feature tests again. Environments are identified by
+ * their browser name, browser version, platform, and driver version.
+ *
+ * ```js
+ * server.capabilityCache = new CapabilityCache('.leadfoot-capabilities.json');
+ * ```
+ */
+export default class CapabilityCache {
+	/**
+	 * The file that the cache is stored in. If no file is specified, the cache is only kept in memory.
+	 */
+	file: string;
+
+	/**
+	 * The maximum age of a cache entry, in milliseconds. Entries older than this are ignored. Defaults to Infinity.
+	 */
+	maxAge: number;
+
+	private _entries: { [key: string]: CacheEntry };
+
+	/**
+	 * @param file
+	 * The file to store the cache in. Any existing entries in the file are loaded immediately. A file that cannot be
+	 * parsed is ignored, and is replaced the next time the cache is saved.
+	 * @param maxAge The maximum age of a cache entry, in milliseconds.
+	 */
+	constructor(file?: string, maxAge: number = Infinity) {
+		this.file = file;
+		this.maxAge = maxAge;
+		this._entries = file && fs.existsSync(file) ? loadEntries(file) : {};
+	}
+
+	/**
+	 * Gets the key that identifies the environment described by a set of capabilities.
+	 *
+	 * @param capabilities The capabilities reported by the remote server for a session.
+	 */
+	getKey(capabilities: Capabilities) {
+		return [
+			capabilities.browserName,
+			capabilities.browserVersion || capabilities.version,
+			capabilities.platformName || capabilities.platform,
+			getDriverVersion(capabilities)
+		].map(value => value == null ? '' : String(value).toLowerCase()).join('|');
+	}
+
+	/**
+	 * Gets the cached capabilities for an environment.
+	 *
+	 * @param capabilities The capabilities reported by the remote server for a session.
+	 * @returns The detected capabilities, or undefined if the environment has not been cached.
+	 */
+	get(capabilities: Capabilities): Capabilities {
+		const entry = this._entries[this.getKey(capabilities)];
+		if (entry && Date.now() - entry.created <= this.maxAge) {
+			return { ...entry.capabilities };
+		}
+	}
+
+	/**
+	 * Stores the detected capabilities for an environment.
+	 *
+	 * @param capabilities The capabilities reported by the remote server for a session.
+	 * @param detectedCapabilities The capabilities that were detected for the environment.
+	 */
+	set(capabilities: Capabilities, detectedCapabilities: Capabilities) {
+		this._entries[this.getKey(capabilities)] = {
+			capabilities: { ...detectedCapabilities },
+			created: Date.now()
+		};
+		this.save();
+	}
+
+	/**
+	 * Removes cached capabilities so that they will be detected again the next time they are needed.
+	 *
+	 * @param capabilities
+	 * The capabilities of the environment to invalidate. If not provided, the entire cache is invalidated.
+	 */
+	invalidate(capabilities?: Capabilities) {
+		if (capabilities) {
+			delete this._entries[this.getKey(capabilities)];
+		}
+		else {
+			this._entries = {};
+		}
+		this.save();
+	}
+
+	/**
+	 * Writes the cache to its file. This is done automatically whenever the cache is modified. The cache is written to
+	 * a temporary file first, so other processes sharing the cache never read a partially written file.
+	 */
+	save() {
+		if (this.file) {
+			const tempFile = this.file + '.' + process.pid + '.tmp';
+			fs.writeFileSync(tempFile, JSON.stringify(this._entries, null, '\t'));
+			fs.renameSync(tempFile, this.file);
+		}
+	}
+}
+
+/**
+ * Loads the entries of a cache file. A file that is not valid JSON, for example because the process writing it
+ * crashed, is treated as an empty cache.
+ */
+function loadEntries(file: string): { [key: string]: CacheEntry } {
+	try {
+		return JSON.parse(fs.readFileSync(file, 'utf8')) || {};
+	}
+	catch (error) {
+		return {};
+	}
+}
+
+/**
+ * Gets the version of the driver used by a session from its capabilities, if the driver reports one.
+ */
+function getDriverVersion(capabilities: any): string {
+	return (capabilities.chrome && capabilities.chrome.chromedriverVersion) || capabilities['moz:geckodriverVersion'];
+}
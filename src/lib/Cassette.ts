@@ -0,0 +1,300 @@
+import * as fs from 'fs';
+import Task from '@dojo/core/async/Task';
+import Headers from '@dojo/core/request/Headers';
+import { Response } from '@dojo/core/request';
+import { forOf } from '@dojo/shim/iterator';
+
+/**
+ * The mode of a [[Cassette]]. In 'record' mode, HTTP exchanges with the remote server are performed normally and
+ * written to the cassette; in 'replay' mode, the remote server is never contacted and responses are served from the
+ * cassette instead.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * A single recorded HTTP exchange with a remote server.
+ */
+export interface Exchange {
+	/** The HTTP method of the request. */
+	method: string;
+
+	/**
+	 * The path of the request, relative to the URL of the server. Requests to other servers (like redirects to a
+	 * different host) are recorded using an absolute URL.
+	 */
+	path: string;
+
+	/** The raw request body, or null if the request had no body. */
+	requestData: string;
+
+	/** The HTTP status code of the response, or null if no response was received. */
+	status: number;
+
+	/** The headers of the response. */
+	headers: { [name: string]: string };
+
+	/** The raw response body, or null if no response was received. */
+	body: string;
+
+	/**
+	 * The error that caused the request to fail before a response was received, like a dropped connection or a
+	 * timeout.
+	 */
+	error?: RecordedError;
+}
+
+/**
+ * A transport failure recorded by a [[Cassette]].
+ */
+export interface RecordedError {
+	/** The name of the error. */
+	name: string;
+
+	/** The message of the error. */
+	message: string;
+
+	/** The system error code of the error, like 'ECONNRESET', if it has one. */
+	code?: string;
+}
+
+/**
+ * A Cassette records the raw HTTP traffic between a [[Server]] and a remote WebDriver server so that it can be
+ * replayed later without a network connection. Because exchanges are recorded before any response normalisation
+ * occurs, a replayed session goes through exactly the same code paths as the original one.
+ *
+ * ```js
+ * var server = new Server('http://grid.example:4444/wd/hub');
+ * server.cassette = new Cassette('record', 'flaky-run.jsonl');
+ * // ...later, offline
+ * var server = new Server('http://localhost/wd/hub');
+ * server.cassette = new Cassette('replay', 'flaky-run.jsonl');
+ * ```
+ */
+export default class Cassette {
+	/**
+	 * The mode of the cassette.
+	 */
+	mode: CassetteMode;
+
+	/**
+	 * The path to the file the cassette is stored in. If no file is specified, exchanges are only kept in memory.
+	 */
+	file: string;
+
+	/**
+	 * The recorded exchanges, in the order they occurred.
+	 */
+	exchanges: Exchange[];
+
+	private _played: { [index: number]: boolean } = {};
+
+	/** The number of exchanges that have been written to the file. */
+	private _written = 0;
+
+	/**
+	 * @param mode The mode of the cassette.
+	 * @param file
+	 * The file to store the cassette in, which contains one exchange per line. In 'replay' mode, the exchanges in the
+	 * file are loaded immediately. In 'record' mode, the file is replaced when the first exchange is recorded, and
+	 * each exchange is appended to it as soon as it is recorded so that the traffic leading up to a crash is kept.
+	 */
+	constructor(mode: CassetteMode, file?: string) {
+		this.mode = mode;
+		this.file = file;
+		this.exchanges = mode === 'replay' && file ? loadExchanges(file) : [];
+		this._written = this.exchanges.length;
+	}
+
+	/**
+	 * Records an exchange.
+	 *
+	 * @param method The HTTP method of the request.
+	 * @param path The path of the request, relative to the URL of the server.
+	 * @param requestData The raw request body.
+	 * @param response The response from the remote server.
+	 * @returns A Task that resolves to a copy of the response, since the body of the original response is consumed
+	 * by the recording.
+	 */
+	record(method: string, path: string, requestData: string, response: Response): Task<Response> {
+		return response.text().then(body => {
+			const headers: { [name: string]: string } = {};
+			forOf(response.headers, function ([ name, value ]: [ string, string ]) {
+				headers[name] = value;
+			});
+
+			const exchange: Exchange = {
+				method,
+				path,
+				requestData: requestData || null,
+				status: response.status,
+				headers,
+				body
+			};
+
+			this.exchanges.push(exchange);
+			this._append();
+
+			return createResponse(response.url, exchange);
+		});
+	}
+
+	/**
+	 * Records a request that failed before a response was received, so that the failure is reproduced when the
+	 * cassette is replayed.
+	 *
+	 * @param method The HTTP method of the request.
+	 * @param path The path of the request, relative to the URL of the server.
+	 * @param requestData The raw request body.
+	 * @param error The error that caused the request to fail.
+	 */
+	recordError(method: string, path: string, requestData: string, error: any) {
+		const recordedError: RecordedError = {
+			name: (error && error.name) || 'Error',
+			message: (error && error.message) || String(error)
+		};
+
+		if (error && error.code) {
+			recordedError.code = error.code;
+		}
+
+		this.exchanges.push({
+			method,
+			path,
+			requestData: requestData || null,
+			status: null,
+			headers: {},
+			body: null,
+			error: recordedError
+		});
+		this._append();
+	}
+
+	/**
+	 * Retrieves the response for a request from the cassette. Exchanges are played back in the order they were
+	 * recorded; the first exchange that has not already been played back and has the same method, path, and request
+	 * body is used. If the request originally failed without a response, the recorded error is thrown again.
+	 *
+	 * @param method The HTTP method of the request.
+	 * @param path The path of the request, relative to the URL of the server.
+	 * @param requestData The raw request body.
+	 * @param url The full URL of the request.
+	 */
+	replay(method: string, path: string, requestData: string, url: string): Response {
+		requestData = requestData || null;
+
+		for (let i = 0; i < this.exchanges.length; ++i) {
+			const exchange = this.exchanges[i];
+			if (!this._played[i] && exchange.method === method && exchange.path === path &&
+				exchange.requestData === requestData
+			) {
+				this._played[i] = true;
+
+				if (exchange.error) {
+					throw createError(exchange.error);
+				}
+
+				return createResponse(url, exchange);
+			}
+		}
+
+		const error = new Error('No recorded response for ' + method + ' ' + path +
+			(requestData ? ' / ' + requestData : ''));
+		error.name = 'CassetteError';
+		throw error;
+	}
+
+	/**
+	 * Rewinds the cassette so that all exchanges can be played back again.
+	 */
+	rewind() {
+		this._played = {};
+	}
+
+	/**
+	 * Writes all exchanges of the cassette to its file, replacing its contents. Recorded exchanges are written
+	 * automatically, so this is only needed after `exchanges` has been modified. The exchanges are written to a
+	 * temporary file first, so the original file is left intact if writing fails.
+	 */
+	save() {
+		if (this.file) {
+			const tempFile = this.file + '.tmp';
+			fs.writeFileSync(tempFile, this.exchanges.map(serializeExchange).join(''));
+			fs.renameSync(tempFile, this.file);
+			this._written = this.exchanges.length;
+		}
+	}
+
+	/**
+	 * Appends any exchanges that have not been written yet to the file of the cassette.
+	 */
+	private _append() {
+		if (!this.file) {
+			return;
+		}
+
+		const data = this.exchanges.slice(this._written).map(serializeExchange).join('');
+		if (this._written === 0) {
+			fs.writeFileSync(this.file, data);
+		}
+		else {
+			fs.appendFileSync(this.file, data);
+		}
+
+		this._written = this.exchanges.length;
+	}
+}
+
+function serializeExchange(exchange: Exchange): string {
+	return JSON.stringify(exchange) + '\n';
+}
+
+/**
+ * Loads the exchanges from a cassette file. A last line that cannot be parsed was only partially written when the
+ * recording process crashed, so it is ignored.
+ */
+function loadExchanges(file: string): Exchange[] {
+	const lines = fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+
+	return lines.map(function (line, index) {
+		try {
+			return JSON.parse(line);
+		}
+		catch (error) {
+			if (index === lines.length - 1) {
+				return null;
+			}
+			throw error;
+		}
+	}).filter(Boolean);
+}
+
+function createResponse(url: string, exchange: Exchange): Response {
+	const response: any = {
+		url,
+		status: exchange.status,
+		statusText: '',
+		ok: exchange.status >= 200 && exchange.status < 300,
+		headers: new Headers(exchange.headers),
+		bodyUsed: false,
+		text() {
+			response.bodyUsed = true;
+			return Task.resolve(exchange.body);
+		},
+		json() {
+			return response.text().then(JSON.parse);
+		}
+	};
+
+	return response;
+}
+
+function createError(recordedError: RecordedError): Error {
+	const error: Error & { code?: string } = new Error(recordedError.message);
+	error.name = recordedError.name;
+
+	if (recordedError.code) {
+		error.code = recordedError.code;
+	}
+
+	return error;
+}
@@ -0,0 +1,77 @@
+import Task from '@dojo/core/async/Task';
+import Server, { AttachOptions } from '../Server';
+import Session from '../Session';
+import { Capabilities } from '../interfaces';
+import { fillCapabilityNames } from './util';
+
+/**
+ * Information about an active session on a remote server, as returned by [[Server.getSessions]].
+ */
+export default class SessionInfo {
+	/**
+	 * The ID of the session.
+	 */
+	id: string;
+
+	/**
+	 * The capabilities of the session, as reported by the remote server. Like the capabilities of a new session, both
+	 * the legacy (`platform`, `version`) and W3C (`platformName`, `browserVersion`) names are always populated if the
+	 * server reports either of them.
+	 */
+	capabilities: Capabilities;
+
+	/**
+	 * The time the session was started, if the remote server reports it.
+	 */
+	startTime: Date;
+
+	/**
+	 * The server the session belongs to.
+	 */
+	server: Server;
+
+	/**
+	 * @param server The server the session belongs to.
+	 * @param data The raw information about the session returned by the server.
+	 */
+	constructor(server: Server, data: any) {
+		const capabilities: Capabilities = { ...data.capabilities };
+		fillCapabilityNames(capabilities);
+
+		this.server = server;
+		// At least ChromeDriver 2.19 uses the wrong keys
+		// https://code.google.com/p/chromedriver/issues/detail?id=1229
+		this.id = data.id || data.sessionId;
+		this.capabilities = capabilities;
+		this.startTime = parseTime(data.startTime || data.start);
+	}
+
+	/**
+	 * Creates a Session object for the session. See [[Server.attachSession]].
+	 *
+	 * @param options Options for the session.
+	 */
+	attach(options?: AttachOptions): Task<Session> {
+		return this.server.attachSession(this.id, options);
+	}
+
+	/**
+	 * Terminates the session on the remote server.
+	 */
+	delete(): Task<void> {
+		return this.server.deleteSession(this.id);
+	}
+}
+
+/**
+ * Converts a time reported by a remote server, either as a number of milliseconds since the epoch or as a string,
+ * into a Date.
+ */
+function parseTime(value: number | string): Date {
+	if (value == null) {
+		return undefined;
+	}
+
+	const time = new Date(<any> value);
+	return isNaN(time.getTime()) ? undefined : time;
+}
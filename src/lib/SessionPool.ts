@@ -0,0 +1,345 @@
+import Task from '@dojo/core/async/Task';
+import Server from '../Server';
+import Session from '../Session';
+import { Capabilities, Thenable } from '../interfaces';
+
+/**
+ * Options for a [[SessionPool]].
+ */
+export interface SessionPoolOptions {
+	/**
+	 * The maximum number of sessions, idle or leased, that the pool will keep open at once. Defaults to Infinity.
+	 */
+	maxSize?: number;
+
+	/**
+	 * The time, in milliseconds, that an idle session is kept open before it is quit. Defaults to 60000.
+	 */
+	idleTimeout?: number;
+
+	/**
+	 * Determines whether or not an idle session is still usable before it is leased. By default, a session is
+	 * considered healthy if the remote server responds to a request for its current URL.
+	 *
+	 * @param session The session to check.
+	 */
+	healthCheck?(session: Session): boolean | Thenable<boolean>;
+}
+
+interface PoolEntry {
+	/** The key of the capabilities the session was created with. */
+	key: string;
+
+	session: Session;
+
+	/** The handle of the window that was focused when the session was created. */
+	windowHandle: string;
+
+	/** The timer that quits the session once it has been idle for too long. */
+	timer?: any;
+}
+
+interface Waiter {
+	key: string;
+	desiredCapabilities: Capabilities;
+	requiredCapabilities: Capabilities;
+	resolve(session: Session): void;
+	reject(error: Error): void;
+}
+
+/**
+ * A SessionPool keeps sessions open after they are used so that they can be reused by later tests that need the same
+ * capabilities, avoiding the cost of creating a new session and detecting its capabilities.
+ *
+ * Sessions are leased with [[SessionPool.acquire]] and returned with [[SessionPool.release]]. A released session is
+ * reset before it is reused: its extra windows are closed, local and session storage and cookies for the current
+ * page are cleared, and it is navigated to about:blank. Sessions that cannot be reset are quit.
+ *
+ * ```js
+ * var pool = new SessionPool(server, { maxSize: 4 });
+ * pool.acquire({ browserName: 'chrome' }).then(function (session) {
+ *     return runTests(session).finally(function () {
+ *         return pool.release(session);
+ *     });
+ * });
+ * ```
+ */
+export default class SessionPool {
+	/**
+	 * The server used to create sessions.
+	 */
+	server: Server;
+
+	/**
+	 * The maximum number of sessions, idle or leased, that the pool will keep open at once.
+	 */
+	maxSize: number;
+
+	/**
+	 * The time, in milliseconds, that an idle session is kept open before it is quit.
+	 */
+	idleTimeout: number;
+
+	private _healthCheck: (session: Session) => boolean | Thenable<boolean>;
+	private _idle: PoolEntry[] = [];
+	private _leased: PoolEntry[] = [];
+	private _waiting: Waiter[] = [];
+	private _size = 0;
+	private _destroyed = false;
+
+	/**
+	 * @param server The server used to create sessions.
+	 * @param options Options for the pool.
+	 */
+	constructor(server: Server, options: SessionPoolOptions = {}) {
+		this.server = server;
+		this.maxSize = options.maxSize == null ? Infinity : options.maxSize;
+		this.idleTimeout = options.idleTimeout == null ? 60000 : options.idleTimeout;
+		this._healthCheck = options.healthCheck || function (session) {
+			return session.getCurrentUrl().then(() => true, () => false);
+		};
+	}
+
+	/**
+	 * The number of sessions that are open or being created, including idle sessions.
+	 */
+	get size() {
+		return this._size;
+	}
+
+	/**
+	 * The number of idle sessions.
+	 */
+	get idleCount() {
+		return this._idle.length;
+	}
+
+	/**
+	 * Leases a session with the given capabilities. An idle session created with the same capabilities is reused if
+	 * one is available and healthy; otherwise, a new session is created. If the pool is full, the least recently used
+	 * idle session is quit to make room, or, if all sessions are leased, the returned Task waits until a session is
+	 * released.
+	 *
+	 * @param desiredCapabilities The desired capabilities of the session. See [[Server.createSession]].
+	 * @param requiredCapabilities The required capabilities of the session. See [[Server.createSession]].
+	 */
+	acquire(desiredCapabilities: Capabilities, requiredCapabilities?: Capabilities): Task<Session> {
+		if (this._destroyed) {
+			return Task.reject<Session>(new Error('SessionPool has been destroyed'));
+		}
+
+		const key = getKey({ desiredCapabilities, requiredCapabilities });
+
+		let entry: PoolEntry;
+		for (let i = this._idle.length - 1; i >= 0; --i) {
+			if (this._idle[i].key === key) {
+				entry = this._idle.splice(i, 1)[0];
+				clearTimeout(entry.timer);
+				break;
+			}
+		}
+
+		if (entry) {
+			return Task.resolve(this._healthCheck(entry.session)).catch(() => false).then(healthy => {
+				if (healthy) {
+					return this._lease(entry);
+				}
+
+				return this._discard(entry).then(() => this.acquire(desiredCapabilities, requiredCapabilities));
+			});
+		}
+
+		if (this._size >= this.maxSize) {
+			if (!this._idle.length) {
+				return new Task<Session>((resolve, reject) => {
+					this._waiting.push({ key, desiredCapabilities, requiredCapabilities, resolve, reject });
+				});
+			}
+
+			// The new session takes the place of the idle session, but is only created once the idle session has quit
+			// so that the remote server never has more than `maxSize` sessions
+			return this._create(key, desiredCapabilities, requiredCapabilities, this._discard(this._idle[0]));
+		}
+
+		return this._create(key, desiredCapabilities, requiredCapabilities);
+	}
+
+	/**
+	 * Returns a leased session to the pool. The session is reset and made available to the next caller of
+	 * [[SessionPool.acquire]] that needs the same capabilities.
+	 *
+	 * @param session A session leased from this pool.
+	 * @returns A Task that resolves once the session has been reset, or quit if it could not be reset.
+	 */
+	release(session: Session): Task<void> {
+		const index = this._leased.map(entry => entry.session).indexOf(session);
+		if (index === -1) {
+			return Task.reject<void>(new Error('Session ' + session.sessionId + ' is not leased from this pool'));
+		}
+
+		const entry = this._leased.splice(index, 1)[0];
+
+		if (this._destroyed) {
+			return this._discard(entry);
+		}
+
+		return this._reset(entry).then(() => {
+			if (this._destroyed) {
+				return this._discard(entry);
+			}
+
+			this._makeAvailable(entry);
+		}, () => {
+			// A waiting caller may only get a new session once this one has quit, so that the remote server never has
+			// more than `maxSize` sessions
+			return this._discard(entry).then(() => this._serveWaiting());
+		});
+	}
+
+	/**
+	 * Quits all idle sessions and rejects any pending calls to [[SessionPool.acquire]]. Sessions that are currently
+	 * leased are quit when they are released.
+	 */
+	destroy(): Task<void> {
+		this._destroyed = true;
+
+		this._waiting.splice(0, this._waiting.length).forEach(waiter => {
+			waiter.reject(new Error('SessionPool has been destroyed'));
+		});
+
+		return Task.all(this._idle.slice().map(entry => this._discard(entry))).then(noop);
+	}
+
+	/**
+	 * Creates a new session and leases it. The session counts towards the size of the pool immediately, even if it is
+	 * not created until `ready` has resolved.
+	 */
+	private _create(
+		key: string,
+		desiredCapabilities: Capabilities,
+		requiredCapabilities: Capabilities,
+		ready: Task<any> = Task.resolve()
+	) {
+		++this._size;
+
+		return ready.then(() => {
+			return this.server.createSession(desiredCapabilities, requiredCapabilities);
+		}).then((session: Session) => {
+			return session.getCurrentWindowHandle().then(windowHandle => {
+				return this._lease({ key, session, windowHandle });
+			}, error => {
+				return session.quit().finally(() => {
+					throw error;
+				});
+			});
+		}).catch(error => {
+			--this._size;
+			this._serveWaiting();
+			throw error;
+		});
+	}
+
+	private _lease(entry: PoolEntry) {
+		this._leased.push(entry);
+		return entry.session;
+	}
+
+	/**
+	 * Restores a session to a clean state so that it can be used by another test.
+	 */
+	private _reset(entry: PoolEntry): Task<any> {
+		const { session, windowHandle } = entry;
+
+		return session.getAllWindowHandles().then(handles => {
+			return handles.filter(handle => handle !== windowHandle).reduce((previous, handle) => {
+				return previous.then(() => session.switchToWindow(handle)).then(() => session.closeCurrentWindow());
+			}, Task.resolve());
+		}).then(() => {
+			return session.switchToWindow(windowHandle);
+		}).then(() => {
+			return session.execute('try { localStorage.clear(); sessionStorage.clear(); } catch (error) {}');
+		}).then(() => {
+			return session.clearCookies();
+		}).then(() => {
+			return session.get('about:blank');
+		});
+	}
+
+	/**
+	 * Hands a reset session to a waiting caller of `acquire`, or marks it as idle.
+	 */
+	private _makeAvailable(entry: PoolEntry) {
+		for (let i = 0; i < this._waiting.length; ++i) {
+			const waiter = this._waiting[i];
+			if (waiter.key === entry.key) {
+				this._waiting.splice(i, 1);
+				waiter.resolve(this._lease(entry));
+				return;
+			}
+		}
+
+		this._idle.push(entry);
+
+		if (this.idleTimeout !== Infinity) {
+			entry.timer = setTimeout(() => {
+				this._discard(entry);
+			}, this.idleTimeout);
+
+			// An idle session should not keep the process running
+			if (entry.timer.unref) {
+				entry.timer.unref();
+			}
+		}
+
+		this._serveWaiting();
+	}
+
+	/**
+	 * Quits a session and removes it from the pool.
+	 */
+	private _discard(entry: PoolEntry): Task<void> {
+		const index = this._idle.indexOf(entry);
+		if (index !== -1) {
+			this._idle.splice(index, 1);
+		}
+		clearTimeout(entry.timer);
+		--this._size;
+
+		return entry.session.quit().catch(noop);
+	}
+
+	/**
+	 * Creates sessions for waiting callers of `acquire` that need different capabilities than any idle session, as
+	 * long as there is room in the pool.
+	 */
+	private _serveWaiting() {
+		while (this._waiting.length && (this._size < this.maxSize || this._idle.length)) {
+			const ready = this._size >= this.maxSize ? this._discard(this._idle[0]) : Task.resolve();
+			const waiter = this._waiting.shift();
+			this._create(waiter.key, waiter.desiredCapabilities, waiter.requiredCapabilities, ready)
+				.then(waiter.resolve, waiter.reject);
+		}
+	}
+}
+
+/**
+ * Serialises a value to JSON with object keys in a consistent order, so that equivalent capabilities always have the
+ * same key.
+ */
+function getKey(value: any): string {
+	if (Array.isArray(value)) {
+		return '[' + value.map(getKey).join(',') + ']';
+	}
+
+	if (value && typeof value === 'object') {
+		return '{' + Object.keys(value).sort().filter(key => value[key] !== undefined).map(key => {
+			return JSON.stringify(key) + ':' + getKey(value[key]);
+		}).join(',') + '}';
+	}
+
+	return JSON.stringify(value === undefined ? null : value);
+}
+
+function noop() {
+	// do nothing
+}
@@ -0,0 +1,79 @@
+import { Capabilities } from '../interfaces';
+
+/**
+ * The result of detecting a single capability.
+ */
+export interface ProbeResult {
+	/** The detected value of the capability. */
+	value: any;
+
+	/**
+	 * Whether the value was determined by a feature test (true), or assumed based on the reported capabilities of
+	 * the environment (false).
+	 */
+	tested: boolean;
+
+	/** The time taken by the feature test, in milliseconds. Assumed capabilities always take 0ms. */
+	duration: number;
+
+	/**
+	 * The last error that was caught and handled by the feature test. This is normally the error that caused a
+	 * capability to be marked as broken or unsupported.
+	 */
+	error?: Error;
+}
+
+/**
+ * A report of the capabilities detected for a session by [[Server.probeCapabilities]].
+ */
+export interface CapabilityReport {
+	/** The capabilities reported by the remote server, before detection was performed. */
+	environment: Capabilities;
+
+	/** The result of detecting each capability, keyed by capability name. */
+	capabilities: { [name: string]: ProbeResult };
+}
+
+/**
+ * A capability with a different value in two capability reports.
+ */
+export interface CapabilityChange {
+	/** The name of the capability. */
+	name: string;
+
+	/** The value of the capability in the first report, or undefined if it was not detected. */
+	before: any;
+
+	/** The value of the capability in the second report, or undefined if it was not detected. */
+	after: any;
+}
+
+/**
+ * Compares two capability reports, such as reports for two versions of the same browser, and lists the capabilities
+ * that changed between them.
+ *
+ * @param before The first report.
+ * @param after The second report.
+ * @returns The changed capabilities, sorted by name.
+ */
+export function diffCapabilityReports(before: CapabilityReport, after: CapabilityReport): CapabilityChange[] {
+	const names: { [name: string]: boolean } = {};
+	Object.keys(before.capabilities).concat(Object.keys(after.capabilities)).forEach(name => {
+		names[name] = true;
+	});
+
+	return Object.keys(names).sort().filter(name => {
+		return !isEqual(getValue(before, name), getValue(after, name));
+	}).map(name => {
+		return { name, before: getValue(before, name), after: getValue(after, name) };
+	});
+}
+
+function getValue(report: CapabilityReport, name: string) {
+	const result = report.capabilities[name];
+	return result ? result.value : undefined;
+}
+
+function isEqual(a: any, b: any) {
+	return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,372 @@
+import keys from '../keys';
+import { toW3cLocator } from './Locator';
+import { Method } from '../Server';
+import Session from '../Session';
+import { ActionSequence } from './Actions';
+
+/**
+ * The wire protocol dialects understood by Leadfoot. 'jsonwire' is the legacy Selenium JsonWireProtocol; 'w3c' is
+ * the W3C WebDriver standard.
+ */
+export type Dialect = 'jsonwire' | 'w3c';
+
+/**
+ * A description of how a single remote operation is performed in a given dialect.
+ */
+export interface Endpoint {
+	/** The HTTP method used by the endpoint. */
+	method: Method;
+
+	/**
+	 * The path of the endpoint, relative to the session URL. May contain placeholders in the form `$n` that will be
+	 * replaced by the path parts of the original request.
+	 */
+	path: string;
+
+	/**
+	 * Converts the JsonWireProtocol request data into the request data expected by this endpoint. This function is
+	 * called once the request is at the front of the session request queue, so it may return a Task, but it must
+	 * not make further requests through the queue of the session or it will deadlock. `state` is an object that is
+	 * unique to the session and can be used to carry information between requests.
+	 */
+	request?(data: any, session: Session, state: { [key: string]: any }): any;
+
+	/**
+	 * Converts the response value of this endpoint into the value that would have been returned by the equivalent
+	 * JsonWireProtocol endpoint.
+	 */
+	response?(value: any): any;
+
+	/**
+	 * Whether or not the operation can safely be performed more than once, so that the request can be retried by
+	 * [[Server.retryPolicy]] even if it is not a GET request.
+	 */
+	safe?: boolean;
+
+	/**
+	 * Whether or not the operation has no equivalent in the dialect, so that requests for it are rejected with an
+	 * UnknownCommand error instead of being sent to the server.
+	 */
+	unsupported?: boolean;
+}
+
+/**
+ * The property used to identify web element references in the W3C WebDriver standard.
+ */
+const W3C_ELEMENT_KEY = 'element-6066-11e4-a52e-4f735466cecf';
+
+/**
+ * W3C WebDriver names for the timeout types accepted by [[Session.setTimeout]].
+ */
+const w3cTimeouts: { [type: string]: string } = {
+	implicit: 'implicit',
+	'page load': 'pageLoad',
+	script: 'script'
+};
+
+/**
+ * Keys that remain pressed after being typed until they are typed again or the NULL key is typed.
+ */
+const modifierKeys: { [key: string]: boolean } = {
+	[keys.SHIFT]: true,
+	[keys.CONTROL]: true,
+	[keys.ALT]: true,
+	[keys.META]: true
+};
+
+/**
+ * Operations, keyed by the HTTP method and path of their JsonWireProtocol endpoint, that are sent as POST requests but
+ * do not change the state of the remote environment any further when they are repeated. These requests are retried
+ * after a transient failure like GET requests are.
+ */
+const safeRoutes: { [route: string]: boolean } = {
+	'post timeouts': true,
+	'post timeouts/async_script': true,
+	'post timeouts/implicit_wait': true,
+	'post window': true,
+	'post frame': true,
+	'post frame/parent': true,
+	'post window/size': true,
+	'post window/$0/size': true,
+	'post window/$0/position': true,
+	'post window/$0/maximize': true,
+	'post window/rect': true,
+	'post element': true,
+	'post elements': true,
+	'post element/active': true,
+	'post element/$0/element': true,
+	'post element/$0/elements': true
+};
+
+/**
+ * Operations, keyed by the HTTP method and path of their W3C WebDriver endpoint, that only exist in the W3C WebDriver
+ * standard and cannot be emulated for sessions speaking the JsonWireProtocol.
+ */
+const w3cOnlyRoutes: { [route: string]: boolean } = {
+	'post window/minimize': true
+};
+
+/**
+ * Routes for sessions speaking the W3C WebDriver dialect, keyed by the HTTP method and path of the equivalent
+ * JsonWireProtocol endpoint. Session and Element always issue requests using JsonWireProtocol paths and request
+ * data; operations that do not exist in this table are sent to the server unmodified.
+ */
+const w3cRoutes: { [route: string]: Endpoint } = {
+	'get window_handle': { method: 'get', path: 'window' },
+	'get window_handles': { method: 'get', path: 'window/handles' },
+	'post window': {
+		method: 'post',
+		path: 'window',
+		request(data: { name: string }) {
+			return { handle: data.name };
+		}
+	},
+
+	// The W3C window commands only operate on the current window, so Session switches to any other window before
+	// sending these commands and the handle is ignored
+	'get window/size': { method: 'get', path: 'window/rect', response: toSize },
+	'post window/size': { method: 'post', path: 'window/rect' },
+	'get window/$0/size': { method: 'get', path: 'window/rect', response: toSize },
+	'post window/$0/size': { method: 'post', path: 'window/rect' },
+	'get window/$0/position': { method: 'get', path: 'window/rect', response: toPosition },
+	'post window/$0/position': { method: 'post', path: 'window/rect' },
+	'post window/$0/maximize': { method: 'post', path: 'window/maximize' },
+
+	'post timeouts': {
+		method: 'post',
+		path: 'timeouts',
+		request(data: { type: string, ms: number }) {
+			return { [w3cTimeouts[data.type] || data.type]: data.ms };
+		}
+	},
+	'post timeouts/async_script': {
+		method: 'post',
+		path: 'timeouts',
+		request(data: { ms: number }) {
+			return { script: data.ms };
+		}
+	},
+	'post timeouts/implicit_wait': {
+		method: 'post',
+		path: 'timeouts',
+		request(data: { ms: number }) {
+			return { implicit: data.ms };
+		}
+	},
+
+	'post execute': { method: 'post', path: 'execute/sync' },
+	'post execute_async': { method: 'post', path: 'execute/async' },
+
+	'get alert_text': { method: 'get', path: 'alert/text' },
+	'post alert_text': { method: 'post', path: 'alert/text' },
+	'post accept_alert': { method: 'post', path: 'alert/accept' },
+	'post dismiss_alert': { method: 'post', path: 'alert/dismiss' },
+
+	'post element': { method: 'post', path: 'element', request: toW3cLocatorData },
+	'post elements': { method: 'post', path: 'elements', request: toW3cLocatorData },
+	'post element/active': { method: 'get', path: 'element/active' },
+	'post element/$0/element': { method: 'post', path: 'element/$0/element', request: toW3cLocatorData },
+	'post element/$0/elements': { method: 'post', path: 'element/$0/elements', request: toW3cLocatorData },
+	'get element/$0/location': { method: 'get', path: 'element/$0/rect', response: toPosition },
+	'get element/$0/size': { method: 'get', path: 'element/$0/rect', response: toSize },
+	'post element/$0/value': {
+		method: 'post',
+		path: 'element/$0/value',
+		request(data: { value: string[] }) {
+			const text = data.value.join('');
+			return { text, value: text.split('') };
+		}
+	},
+
+	'post keys': {
+		method: 'post',
+		path: 'actions',
+		request(data: { value: string[] }, session: Session, state: { pressedModifiers?: { [key: string]: boolean } }) {
+			if (!state.pressedModifiers) {
+				state.pressedModifiers = {};
+			}
+
+			return { actions: [ {
+				type: 'key',
+				id: 'keyboard',
+				actions: toKeyActions(data.value, state.pressedModifiers)
+			} ] };
+		}
+	},
+	'post moveto': {
+		method: 'post',
+		path: 'actions',
+		request(data: { element: string, xoffset: number, yoffset: number }, session: Session) {
+			const { element, xoffset, yoffset } = data;
+
+			if (!element) {
+				return toPointerActions([ { type: 'pointerMove', duration: 0, origin: 'pointer', x: xoffset || 0,
+					y: yoffset || 0 } ]);
+			}
+
+			const origin = { [W3C_ELEMENT_KEY]: element };
+
+			if (xoffset == null && yoffset == null) {
+				return toPointerActions([ { type: 'pointerMove', duration: 0, origin, x: 0, y: 0 } ]);
+			}
+
+			// JsonWireProtocol offsets are relative to the top-left corner of the element, but W3C offsets are
+			// relative to its centre. The request is already at the front of the queue, so the size of the element
+			// is retrieved directly from the server.
+			return session.server.get('session/$0/element/$1/rect', null, [ session.sessionId, element ])
+				.then(function (response: { value: { width: number, height: number } }) {
+					const rect = response.value;
+					return toPointerActions([ {
+						type: 'pointerMove',
+						duration: 0,
+						origin,
+						x: Math.round((xoffset || 0) - rect.width / 2),
+						y: Math.round((yoffset || 0) - rect.height / 2)
+					} ]);
+				});
+		}
+	},
+	'post click': {
+		method: 'post',
+		path: 'actions',
+		request(data: { button: number }) {
+			const button = data && data.button || 0;
+			return toPointerActions([
+				{ type: 'pointerDown', button },
+				{ type: 'pointerUp', button }
+			]);
+		}
+	},
+	'post buttondown': {
+		method: 'post',
+		path: 'actions',
+		request(data: { button: number }) {
+			return toPointerActions([ { type: 'pointerDown', button: data && data.button || 0 } ]);
+		}
+	},
+	'post buttonup': {
+		method: 'post',
+		path: 'actions',
+		request(data: { button: number }) {
+			return toPointerActions([ { type: 'pointerUp', button: data && data.button || 0 } ]);
+		}
+	},
+	'post doubleclick': {
+		method: 'post',
+		path: 'actions',
+		request() {
+			return toPointerActions([
+				{ type: 'pointerDown', button: 0 },
+				{ type: 'pointerUp', button: 0 },
+				{ type: 'pointerDown', button: 0 },
+				{ type: 'pointerUp', button: 0 }
+			]);
+		}
+	}
+};
+
+/**
+ * Gets the endpoint that should be used to perform an operation in a given dialect.
+ *
+ * @param dialect The dialect spoken by the remote end.
+ * @param method The HTTP method of the JsonWireProtocol endpoint for the operation.
+ * @param path The path of the JsonWireProtocol endpoint for the operation, relative to the session URL.
+ */
+export function getEndpoint(dialect: Dialect, method: Method, path: string): Endpoint {
+	const route = method + ' ' + path;
+
+	if (dialect !== 'w3c' && w3cOnlyRoutes.hasOwnProperty(route)) {
+		return { method, path, unsupported: true };
+	}
+
+	const endpoint = dialect === 'w3c' && w3cRoutes.hasOwnProperty(route) ? w3cRoutes[route] : { method, path };
+
+	return safeRoutes.hasOwnProperty(route) ? { ...endpoint, safe: true } : endpoint;
+}
+
+/**
+ * Updates the set of modifier keys that are held down by the 'keyboard' input source, which is shared with the
+ * emulated `keys` endpoint, after actions have been performed with [[Session.performActions]]. This keeps modifier
+ * keys pressed by one API from being pressed again, instead of released, by the other.
+ *
+ * @param sequences The action sequences that were performed.
+ * @param state The endpoint state of the session.
+ */
+export function trackPressedModifiers(
+	sequences: ActionSequence[],
+	state: { pressedModifiers?: { [key: string]: boolean } }
+) {
+	sequences.forEach(function (sequence) {
+		if (sequence.type !== 'key' || sequence.id !== 'keyboard') {
+			return;
+		}
+
+		const pressedModifiers = state.pressedModifiers = state.pressedModifiers || {};
+
+		sequence.actions.forEach(function (action) {
+			if (!modifierKeys[action.value]) {
+				return;
+			}
+
+			if (action.type === 'keyDown') {
+				pressedModifiers[action.value] = true;
+			}
+			else if (action.type === 'keyUp') {
+				delete pressedModifiers[action.value];
+			}
+		});
+	});
+}
+
+function toW3cLocatorData(data: { using: string, value: string }) {
+	return toW3cLocator(data.using, data.value);
+}
+
+function toSize(rect: { width: number, height: number }) {
+	return { width: rect.width, height: rect.height };
+}
+
+function toPosition(rect: { x: number, y: number }) {
+	return { x: rect.x, y: rect.y };
+}
+
+function toPointerActions(actions: any[]) {
+	return { actions: [ {
+		type: 'pointer',
+		id: 'mouse',
+		parameters: { pointerType: 'mouse' },
+		actions
+	} ] };
+}
+
+/**
+ * Converts a list of keys into a W3C key action sequence. JsonWireProtocol modifier keys are sticky, so the set of
+ * modifiers that are still held down is tracked between calls in `pressedModifiers`.
+ */
+function toKeyActions(value: string[], pressedModifiers: { [key: string]: boolean }) {
+	const actions: { type: string, value: string }[] = [];
+
+	value.join('').split('').forEach(function (key) {
+		if (key === keys.NULL) {
+			Object.keys(pressedModifiers).forEach(function (modifier) {
+				actions.push({ type: 'keyUp', value: modifier });
+				delete pressedModifiers[modifier];
+			});
+		}
+		else if (modifierKeys[key]) {
+			if (pressedModifiers[key]) {
+				actions.push({ type: 'keyUp', value: key });
+				delete pressedModifiers[key];
+			}
+			else {
+				actions.push({ type: 'keyDown', value: key });
+				pressedModifiers[key] = true;
+			}
+		}
+		else {
+			actions.push({ type: 'keyDown', value: key }, { type: 'keyUp', value: key });
+		}
+	});
+
+	return actions;
+}
@@ -1,5 +1,5 @@
 import Task from '@dojo/core/async/Task';
-import statusCodes from './statusCodes';
+import { createError } from '../errors';
 import Element from '../Element';
 import Session from '../Session';
 import { Thenable } from '../interfaces';
@@ -32,11 +32,7 @@ export default function findDisplayed(session: Session, locator: Session | Eleme
 						return element;
 					}
 					else if (Date.now() - startTime > originalTimeout) {
-						const error: any = new Error();
-						error.status = elements.length ? 11 : 7;
-						error.name = (<any> statusCodes)[error.status][0];
-						error.message = (<any> statusCodes)[error.status][1];
-						throw error;
+						throw createError(elements.length ? 11 : 7);
 					}
 					else {
 						return poll();
@@ -0,0 +1,299 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * A decoded image, with 8-bit RGBA pixel data stored row by row from the top-left corner.
+ */
+export interface Image {
+	width: number;
+	height: number;
+	data: Buffer;
+}
+
+const SIGNATURE = new Buffer([ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ]);
+
+/**
+ * The number of channels in each pixel, keyed by PNG colour type.
+ */
+const channelCounts: { [colorType: number]: number } = {
+	0: 1, // greyscale
+	2: 3, // RGB
+	3: 1, // palette index
+	4: 2, // greyscale and alpha
+	6: 4 // RGBA
+};
+
+let crcTable: number[];
+
+/**
+ * Decodes a PNG image. All standard colour types and bit depths are supported, but interlaced images are not.
+ *
+ * @param buffer The PNG file.
+ */
+export function decode(buffer: Buffer): Image {
+	if (buffer.length < SIGNATURE.length || !buffer.slice(0, SIGNATURE.length).equals(SIGNATURE)) {
+		throw new Error('Image is not a PNG');
+	}
+
+	let width = 0;
+	let height = 0;
+	let bitDepth = 0;
+	let colorType = 0;
+	let palette: Buffer = null;
+	let transparency: Buffer = null;
+	const imageData: Buffer[] = [];
+
+	let offset = SIGNATURE.length;
+	while (offset + 8 <= buffer.length) {
+		const length = buffer.readUInt32BE(offset);
+		const type = buffer.toString('ascii', offset + 4, offset + 8);
+		const chunk = buffer.slice(offset + 8, offset + 8 + length);
+		offset += length + 12;
+
+		if (type === 'IHDR') {
+			width = chunk.readUInt32BE(0);
+			height = chunk.readUInt32BE(4);
+			bitDepth = chunk[8];
+			colorType = chunk[9];
+
+			if (chunk[12] !== 0) {
+				throw new Error('Interlaced PNG images are not supported');
+			}
+			if (!(colorType in channelCounts)) {
+				throw new Error('Unsupported PNG colour type ' + colorType);
+			}
+		}
+		else if (type === 'PLTE') {
+			palette = chunk;
+		}
+		else if (type === 'tRNS') {
+			transparency = chunk;
+		}
+		else if (type === 'IDAT') {
+			imageData.push(chunk);
+		}
+		else if (type === 'IEND') {
+			break;
+		}
+	}
+
+	if (!width || !height) {
+		throw new Error('PNG image has no header');
+	}
+
+	const bitsPerPixel = channelCounts[colorType] * bitDepth;
+	const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+	const stride = Math.ceil(width * bitsPerPixel / 8);
+	const pixels = unfilter(inflateSync(Buffer.concat(imageData)), height, stride, bytesPerPixel);
+	const data = new Buffer(width * height * 4);
+
+	// Samples are scaled to 8 bits; 16-bit samples keep their most significant byte
+	const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+	function getSample(row: number, index: number) {
+		const start = row * stride;
+		if (bitDepth === 16) {
+			return pixels[start + index * 2];
+		}
+		if (bitDepth === 8) {
+			return pixels[start + index];
+		}
+
+		const bit = index * bitDepth;
+		return (pixels[start + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+	}
+
+	for (let y = 0; y < height; ++y) {
+		for (let x = 0; x < width; ++x) {
+			const target = (y * width + x) * 4;
+			let r: number;
+			let g: number;
+			let b: number;
+			let a = 255;
+
+			if (colorType === 3) {
+				const index = getSample(y, x);
+				r = palette[index * 3];
+				g = palette[index * 3 + 1];
+				b = palette[index * 3 + 2];
+				if (transparency && index < transparency.length) {
+					a = transparency[index];
+				}
+			}
+			else {
+				const channels = channelCounts[colorType];
+				const scale = bitDepth < 8 ? 255 / maxSample : 1;
+				const samples: number[] = [];
+				for (let channel = 0; channel < channels; ++channel) {
+					samples.push(Math.round(getSample(y, x * channels + channel) * scale));
+				}
+
+				if (colorType === 0 || colorType === 4) {
+					r = g = b = samples[0];
+					a = colorType === 4 ? samples[1] : 255;
+				}
+				else {
+					r = samples[0];
+					g = samples[1];
+					b = samples[2];
+					a = colorType === 6 ? samples[3] : 255;
+				}
+			}
+
+			data[target] = r;
+			data[target + 1] = g;
+			data[target + 2] = b;
+			data[target + 3] = a;
+		}
+	}
+
+	return { width, height, data };
+}
+
+/**
+ * Encodes an image as an 8-bit RGBA PNG.
+ *
+ * @param image The image to encode.
+ */
+export function encode(image: Image): Buffer {
+	const { width, height, data } = image;
+	const stride = width * 4;
+
+	// Each row is stored without filtering, preceded by its filter type
+	const raw = new Buffer((stride + 1) * height);
+	for (let y = 0; y < height; ++y) {
+		raw[y * (stride + 1)] = 0;
+		data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+	}
+
+	const header = new Buffer(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header[8] = 8;
+	header[9] = 6;
+	header[10] = 0;
+	header[11] = 0;
+	header[12] = 0;
+
+	return Buffer.concat([
+		SIGNATURE,
+		createChunk('IHDR', header),
+		createChunk('IDAT', deflateSync(raw)),
+		createChunk('IEND', new Buffer(0))
+	]);
+}
+
+/**
+ * Copies a rectangular region of an image. The region is clipped to the bounds of the image.
+ *
+ * @param image The image to copy from.
+ * @param x The x-coordinate of the left edge of the region, in pixels.
+ * @param y The y-coordinate of the top edge of the region, in pixels.
+ * @param width The width of the region, in pixels.
+ * @param height The height of the region, in pixels.
+ */
+export function crop(image: Image, x: number, y: number, width: number, height: number): Image {
+	const left = Math.max(0, Math.min(image.width, Math.round(x)));
+	const top = Math.max(0, Math.min(image.height, Math.round(y)));
+	const right = Math.max(left, Math.min(image.width, Math.round(x + width)));
+	const bottom = Math.max(top, Math.min(image.height, Math.round(y + height)));
+
+	const cropped: Image = {
+		width: right - left,
+		height: bottom - top,
+		data: new Buffer((right - left) * (bottom - top) * 4)
+	};
+
+	for (let row = top; row < bottom; ++row) {
+		image.data.copy(cropped.data, (row - top) * cropped.width * 4, (row * image.width + left) * 4,
+			(row * image.width + right) * 4);
+	}
+
+	return cropped;
+}
+
+/**
+ * Reverses the filtering applied to each row of a PNG image.
+ */
+function unfilter(filtered: Buffer, height: number, stride: number, bytesPerPixel: number): Buffer {
+	const pixels = new Buffer(stride * height);
+
+	for (let y = 0; y < height; ++y) {
+		const filterType = filtered[y * (stride + 1)];
+		const source = y * (stride + 1) + 1;
+		const target = y * stride;
+
+		for (let i = 0; i < stride; ++i) {
+			const left = i >= bytesPerPixel ? pixels[target + i - bytesPerPixel] : 0;
+			const up = y > 0 ? pixels[target - stride + i] : 0;
+			const upLeft = y > 0 && i >= bytesPerPixel ? pixels[target - stride + i - bytesPerPixel] : 0;
+			let predictor: number;
+
+			switch (filterType) {
+				case 0:
+					predictor = 0;
+					break;
+				case 1:
+					predictor = left;
+					break;
+				case 2:
+					predictor = up;
+					break;
+				case 3:
+					predictor = (left + up) >> 1;
+					break;
+				case 4:
+					predictor = paeth(left, up, upLeft);
+					break;
+				default:
+					throw new Error('Invalid PNG filter type ' + filterType);
+			}
+
+			pixels[target + i] = (filtered[source + i] + predictor) & 0xff;
+		}
+	}
+
+	return pixels;
+}
+
+function paeth(left: number, up: number, upLeft: number) {
+	const estimate = left + up - upLeft;
+	const leftDistance = Math.abs(estimate - left);
+	const upDistance = Math.abs(estimate - up);
+	const upLeftDistance = Math.abs(estimate - upLeft);
+
+	if (leftDistance <= upDistance && leftDistance <= upLeftDistance) {
+		return left;
+	}
+	if (upDistance <= upLeftDistance) {
+		return up;
+	}
+	return upLeft;
+}
+
+function createChunk(type: string, data: Buffer) {
+	const chunk = new Buffer(data.length + 12);
+	chunk.writeUInt32BE(data.length, 0);
+	chunk.write(type, 4, 4, 'ascii');
+	data.copy(chunk, 8);
+	chunk.writeUInt32BE(crc32(chunk.slice(4, data.length + 8)), data.length + 8);
+	return chunk;
+}
+
+function crc32(data: Buffer) {
+	if (!crcTable) {
+		crcTable = [];
+		for (let n = 0; n < 256; ++n) {
+			let c = n;
+			for (let k = 0; k < 8; ++k) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; ++i) {
+		crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+
+	return (crc ^ 0xffffffff) >>> 0;
+}
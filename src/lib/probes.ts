@@ -0,0 +1,278 @@
+import Task from '@dojo/core/async/Task';
+import { ProbeResult } from './capabilityReport';
+import { toExecuteString } from './util';
+
+/**
+ * Describes the parts of the remote environment that a feature test depends on. Feature tests that share a resource
+ * never run at the same time; feature tests that share no resources may run concurrently.
+ */
+export interface ProbeRequirements {
+	/**
+	 * The feature test loads a page, interacts with the current page, depends on the state of the current page, or
+	 * changes the window or frame that commands are sent to.
+	 */
+	page?: boolean;
+
+	/**
+	 * The feature test leaves the page it loaded unmodified, so a following feature test that needs the same page
+	 * does not need to load it again.
+	 */
+	preservesPage?: boolean;
+
+	/**
+	 * The feature test reads or changes the size, position, frame, or focus of the current window.
+	 */
+	window?: boolean;
+}
+
+/**
+ * The requirements of feature tests that do not declare any, which never run at the same time as any other feature
+ * test that uses the page or the window.
+ */
+export const exclusiveRequirements: ProbeRequirements = { page: true, window: true };
+
+/**
+ * The requirements of the built-in feature tests, keyed by capability name. Feature tests that are not listed here
+ * use [[exclusiveRequirements]].
+ */
+export const probeRequirements: { [name: string]: ProbeRequirements } = {
+	// Feature tests that only read the size of the window leave the current browsing context untouched and can run
+	// alongside feature tests that use the page; those that resize the window or switch windows or frames cannot
+
+	// Server features
+	supportsConcurrentRequests: {},
+	remoteFiles: {},
+	implicitWindowHandles: { window: true },
+	returnsFromClickImmediately: { page: true },
+	supportsKeysCommand: { page: true },
+
+	// Features
+	rotatable: {},
+	locationContextEnabled: {},
+	webStorageEnabled: { page: true },
+	applicationCacheEnabled: { page: true },
+	takesScreenshot: {},
+	supportsExecuteAsync: { page: true, preservesPage: true },
+	mouseEnabled: { page: true },
+	touchEnabled: { page: true },
+	dynamicViewport: { page: true, window: true },
+	supportsNavigationDataUris: { page: true, preservesPage: true },
+
+	// Defects
+	brokenActiveElement: { page: true, preservesPage: true },
+	brokenDeleteCookie: { page: true },
+	brokenHtmlTagName: { page: true, preservesPage: true },
+	brokenNullGetSpecAttribute: { page: true, preservesPage: true },
+	brokenElementSerialization: { page: true, preservesPage: true },
+	brokenExecuteUndefinedReturn: { page: true, preservesPage: true },
+	brokenExecuteElementReturn: { page: true, preservesPage: true },
+	brokenElementScreenshot: { page: true, preservesPage: true },
+	brokenElementDisplayedOpacity: { page: true },
+	brokenElementDisplayedOffscreen: { page: true, preservesPage: true },
+	brokenWhitespaceNormalization: { page: true, preservesPage: true },
+	brokenLinkTextLocator: { page: true, preservesPage: true },
+	brokenComputedStyles: { page: true, preservesPage: true },
+	brokenOptionSelect: { page: true },
+	brokenPageSource: { page: true, preservesPage: true },
+	brokenSubmitElement: { page: true },
+	brokenWindowSize: { window: true },
+	brokenWindowRect: { window: true },
+	brokenFullscreenWindow: { window: true },
+	brokenNewWindow: { page: true, window: true },
+	fixedLogTypes: {},
+	brokenZeroTimeout: { page: true, preservesPage: true },
+	brokenWindowSwitch: { page: true, window: true },
+	brokenParentFrameSwitch: { page: true, window: true },
+	brokenElementPosition: { page: true },
+	brokenRefresh: { page: true },
+	brokenMouseEvents: { page: true },
+	brokenHtmlMouseMove: { page: true },
+	brokenDoubleClick: { page: true },
+	brokenLongTap: { page: true },
+	brokenMoveFinger: { page: true },
+	brokenTouchScroll: { page: true },
+	brokenFlickFinger: { page: true },
+	brokenCssTransformedSize: { page: true, preservesPage: true }
+};
+
+/**
+ * Functions used by feature tests to convert the outcome of a command into the value of a capability. Each feature
+ * test receives its own set of helpers so that any errors they handle are attributed to the right feature test, even
+ * when several feature tests are running at once.
+ */
+export interface ProbeHelpers {
+	/** Records an error that was handled by the feature test. */
+	recordError(error?: any): void;
+
+	/** Records any error and returns true. */
+	supported(error?: any): boolean;
+
+	/** Records any error and returns false. */
+	unsupported(error?: any): boolean;
+
+	/** Records the error and returns false if it indicates that a command is not implemented, or true otherwise. */
+	maybeSupported(error: Error): boolean;
+
+	/** Records any error and returns true. */
+	broken(error?: any): boolean;
+
+	/** Records any error and returns false. */
+	works(error?: any): boolean;
+}
+
+/**
+ * Creates the helpers for a single feature test.
+ *
+ * @param result The result that handled errors are recorded to.
+ */
+export function createProbeHelpers(result: ProbeResult): ProbeHelpers {
+	function recordError(error: any) {
+		if (error instanceof Error) {
+			result.error = error;
+		}
+	}
+
+	function supported(error?: any) { recordError(error); return true; }
+	function unsupported(error?: any) { recordError(error); return false; }
+	function maybeSupported(error: Error) {
+		recordError(error);
+		if (error.name === 'UnknownCommand') {
+			return false;
+		}
+		if (/\bunimplemented command\b/.test(error.message)) {
+			return false;
+		}
+		return true;
+	}
+
+	return {
+		recordError,
+		supported,
+		unsupported,
+		maybeSupported,
+		broken: supported,
+		works: unsupported
+	};
+}
+
+/**
+ * A feature test that consists of a single script run against a page. Script probes that use the same page are
+ * combined into a single `execute` call.
+ */
+export class ScriptProbe {
+	/** The HTML document the script runs against. */
+	page: string;
+
+	/** The script, as a function or as the body of a function. It must not depend on any arguments. */
+	script: Function | string;
+
+	/** The value of the capability if the script throws an error. */
+	failureValue: any;
+
+	/**
+	 * @param page The HTML document the script runs against.
+	 * @param script The script. Its return value is used as the value of the capability.
+	 * @param failureValue The value of the capability if the script throws an error. Defaults to false.
+	 */
+	constructor(page: string, script: Function | string, failureValue: any = false) {
+		this.page = page;
+		this.script = script;
+		this.failureValue = failureValue;
+	}
+}
+
+/**
+ * Creates a script that runs several scripts and returns their results as an array. Each result is an object with
+ * either a `value` property containing the return value of the script, or an `error` property containing the message
+ * of the error thrown by the script.
+ *
+ * @param scripts The scripts to combine.
+ */
+export function createBatchScript(scripts: (Function | string)[]): string {
+	const functions = scripts.map(script => 'function () {' + toExecuteString(script) + '}');
+
+	// This script needs to run in quirks-mode in old versions of Internet Explorer, so only ES3 syntax can be used
+	return 'var scripts = [' + functions.join(',') + '];' +
+		'var results = [];' +
+		'for (var i = 0; i < scripts.length; ++i) {' +
+			'try { results.push({ value: scripts[i].call(this) }); }' +
+			'catch (error) { results.push({ error: String((error && error.message) || error) }); }' +
+		'}' +
+		'return results;';
+}
+
+/**
+ * A feature test scheduled by [[runProbes]].
+ */
+export interface Probe {
+	/** The name of the capability being tested. */
+	name: string;
+
+	/** The requirements of the feature test. */
+	requirements: ProbeRequirements;
+
+	/** Runs the feature test. */
+	run(): Task<any>;
+}
+
+/**
+ * Runs a set of feature tests, starting them in order but running up to `concurrency` at once. A feature test is
+ * only started once no running feature test shares any of its requirements. Commands sent by concurrent feature
+ * tests still pass through the session queue, so they are only sent to the remote server in parallel when the
+ * pipelining policy of the session allows it; otherwise concurrency only overlaps client-side delays and lets feature
+ * tests that do not touch the page run between those that do.
+ *
+ * @param probes The feature tests to run.
+ * @param concurrency The maximum number of feature tests to run at once.
+ * @returns A Task that resolves once all feature tests have finished. If a feature test fails, no more feature tests
+ * are started and the Task rejects with the first error once the feature tests that are already running have settled.
+ */
+export function runProbes(probes: Probe[], concurrency: number): Task<void> {
+	const pending = probes.slice();
+	const running: Probe[] = [];
+	let failure: { error: any } = null;
+
+	return new Task<void>((resolve, reject) => {
+		function schedule() {
+			if (failure) {
+				if (!running.length) {
+					reject(failure.error);
+				}
+				return;
+			}
+
+			if (!pending.length && !running.length) {
+				resolve();
+				return;
+			}
+
+			// Feature tests that are waiting for a resource also block any later feature tests that need the same
+			// resource, so feature tests that share a resource always run in order
+			const waiting: Probe[] = [];
+
+			for (let i = 0; i < pending.length && running.length < Math.max(concurrency, 1); ++i) {
+				const probe = pending[i];
+				if (running.some(other => conflicts(probe, other)) || waiting.some(other => conflicts(probe, other))) {
+					waiting.push(probe);
+					continue;
+				}
+
+				pending.splice(i--, 1);
+				running.push(probe);
+
+				Task.resolve().then(() => probe.run()).catch(error => {
+					failure = failure || { error };
+				}).then(() => {
+					running.splice(running.indexOf(probe), 1);
+					schedule();
+				});
+			}
+		}
+
+		schedule();
+	});
+}
+
+function conflicts(a: Probe, b: Probe) {
+	return Boolean((a.requirements.page && b.requirements.page) || (a.requirements.window && b.requirements.window));
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import keys from '../keys';
+import { Capabilities } from '../interfaces';
+
+/**
+ * A quirk profile describes the known capabilities and defects of an environment so that Leadfoot does not need to
+ * detect them. Profiles are useful in environments where feature detection is slow, or where one of the feature tests
+ * crashes the browser.
+ *
+ * ```js
+ * server.createSession({
+ *     browserName: 'chrome',
+ *     quirks: {
+ *         capabilities: { brokenMouseEvents: false },
+ *         skip: [ 'brokenRefresh' ]
+ *     }
+ * });
+ * ```
+ */
+export interface QuirkProfile {
+	/**
+	 * Capabilities that are set on the session before detection starts. The feature tests for these capabilities
+	 * are never run.
+	 */
+	capabilities?: Capabilities;
+
+	/**
+	 * The names of capabilities whose feature tests should not be run. Unlike forced capabilities, skipped
+	 * capabilities are left with whatever value was reported by the remote server, if any.
+	 */
+	skip?: string[];
+}
+
+const profiles: { [name: string]: QuirkProfile } = {
+	'chrome-headless-linux': {
+		capabilities: {
+			dynamicViewport: true,
+			mouseEnabled: true,
+			rotatable: false,
+			shortcutKey: keys.CONTROL,
+			supportsCssTransforms: true,
+			supportsExecuteAsync: true,
+			supportsNavigationDataUris: true,
+			takesScreenshot: true,
+			touchEnabled: false
+		}
+	}
+};
+
+/**
+ * Registers a named quirk profile, replacing any existing profile with the same name.
+ *
+ * @param name The name of the profile, like 'chrome-headless-linux'.
+ * @param profile The profile.
+ */
+export function registerQuirkProfile(name: string, profile: QuirkProfile) {
+	profiles[name] = profile;
+}
+
+/**
+ * Gets a quirk profile.
+ *
+ * @param quirks
+ * The name of a registered profile, the path to a JSON file containing a profile, or a profile object, which is
+ * returned as-is.
+ */
+export function getQuirkProfile(quirks: string | QuirkProfile): QuirkProfile {
+	if (typeof quirks !== 'string') {
+		return quirks;
+	}
+
+	if (profiles[quirks]) {
+		return profiles[quirks];
+	}
+
+	if (/\.json$/i.test(quirks)) {
+		return JSON.parse(fs.readFileSync(quirks, 'utf8'));
+	}
+
+	throw new Error('Unknown quirk profile "' + quirks + '"');
+}
+
+/**
+ * Determines whether or not the feature test for a capability should run under a quirk profile.
+ *
+ * @param profile The quirk profile, if one is in use.
+ * @param name The name of the capability.
+ */
+export function shouldProbe(profile: QuirkProfile, name: string) {
+	if (!profile) {
+		return true;
+	}
+
+	if (profile.capabilities && name in profile.capabilities) {
+		return false;
+	}
+
+	return !profile.skip || profile.skip.indexOf(name) === -1;
+}
+
+/**
+ * Copies the forced capabilities of a quirk profile onto a set of capabilities.
+ *
+ * @param capabilities The capabilities to modify.
+ * @param profile The quirk profile, if one is in use.
+ */
+export function applyQuirkProfile(capabilities: Capabilities, profile: QuirkProfile) {
+	if (profile && profile.capabilities) {
+		for (let key in profile.capabilities) {
+			(<any> capabilities)[key] = (<any> profile.capabilities)[key];
+		}
+	}
+}
@@ -0,0 +1,105 @@
+import { ServerRequest } from '../Server';
+
+/**
+ * A policy that controls how requests to a remote server are retried after a transient failure.
+ */
+export interface RetryPolicy {
+	/**
+	 * The maximum number of times a request will be attempted, including the first attempt. Defaults to 3.
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * The delay before the first retry, in milliseconds. The delay doubles after every subsequent attempt. Defaults
+	 * to 250.
+	 */
+	delay?: number;
+
+	/**
+	 * The maximum delay between attempts, in milliseconds. Defaults to 5000.
+	 */
+	maxDelay?: number;
+
+	/**
+	 * The fraction of each delay, between 0 and 1, that is randomised so that clients that failed at the same time
+	 * do not all retry at the same time. Defaults to 0.5.
+	 */
+	jitter?: number;
+
+	/**
+	 * Determines whether or not a failed request should be retried. By default, transient failures (see
+	 * [[isTransientError]]) are retried for GET requests and for any request that was sent with the `safe` option.
+	 * Requests sent with their own `retryable` option, like new session requests, use that function instead.
+	 *
+	 * @param error The error that caused the request to fail.
+	 * @param request The request that failed.
+	 * @param attempt The number of attempts that have been made so far.
+	 */
+	retryable?(error: any, request: ServerRequest, attempt: number): boolean;
+}
+
+/**
+ * The default values for all properties of a [[RetryPolicy]].
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+	maxAttempts: 3,
+	delay: 250,
+	maxDelay: 5000,
+	jitter: 0.5,
+	retryable(error: any, request: ServerRequest) {
+		return (request.method === 'GET' || Boolean(request.safe)) && isTransientError(error);
+	}
+};
+
+/**
+ * Network error codes that indicate that a remote server could not be reached or dropped a connection, rather than
+ * rejecting a request.
+ */
+const transientErrorCodes: { [code: string]: boolean } = {
+	EAI_AGAIN: true,
+	ECONNABORTED: true,
+	ECONNREFUSED: true,
+	ECONNRESET: true,
+	EPIPE: true,
+	ETIMEDOUT: true
+};
+
+/**
+ * Determines whether or not an error represents a transient failure of the transport or of an intermediate server
+ * (like a Selenium Grid hub), as opposed to an error from the remote environment itself.
+ */
+export function isTransientError(error: any): boolean {
+	if (!error) {
+		return false;
+	}
+
+	if (error.code && transientErrorCodes[error.code]) {
+		return true;
+	}
+
+	const status = error.response && error.response.status;
+	if (status === 502 || status === 503 || status === 504) {
+		return true;
+	}
+
+	return isSessionQueueFullError(error);
+}
+
+/**
+ * Determines whether or not an error is the rejection of a new session request by a Selenium Grid hub whose queue of
+ * waiting requests is full. No session has been created when a request is rejected this way.
+ */
+export function isSessionQueueFullError(error: any): boolean {
+	return Boolean(error) && /\bsession queue (?:is )?full\b/i.test(error.message);
+}
+
+/**
+ * Calculates the delay before the next attempt of a request.
+ *
+ * @param policy A fully populated retry policy.
+ * @param attempt The number of attempts that have been made so far.
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+	const delay = Math.min(policy.maxDelay, policy.delay * Math.pow(2, attempt - 1));
+	return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
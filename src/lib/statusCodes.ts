@@ -27,3 +27,60 @@ const statusCodes = {
 };
 
 export default statusCodes;
+
+/**
+ * W3C WebDriver servers identify errors using a string error code instead of a numeric status. This map converts
+ * those error codes into the equivalent JsonWireProtocol status so errors are reported consistently regardless of
+ * the protocol dialect spoken by the remote end. Errors that have no JsonWireProtocol equivalent are listed in
+ * [[w3cOnlyErrors]] instead.
+ */
+export const w3cErrorCodes: { [error: string]: number } = {
+	'element not selectable': 15,
+	'element not visible': 11,
+	'insecure certificate': 13,
+	'invalid cookie domain': 24,
+	'invalid coordinates': 29,
+	'invalid element coordinates': 29,
+	'invalid element state': 12,
+	'invalid selector': 32,
+	'invalid session id': 6,
+	'javascript error': 17,
+	'move target out of bounds': 34,
+	'no such alert': 27,
+	'no such element': 7,
+	'no such frame': 8,
+	'no such window': 23,
+	'script timeout': 28,
+	'session not created': 33,
+	'stale element reference': 10,
+	'timeout': 21,
+	'unable to set cookie': 25,
+	'unexpected alert open': 26,
+	'unknown command': 9,
+	'unknown error': 13,
+	'unknown method': 9,
+	'unsupported operation': 9
+};
+
+/**
+ * Names and descriptions of the W3C WebDriver errors that have no JsonWireProtocol status code, keyed by their W3C
+ * error code.
+ */
+export const w3cOnlyErrors: { [error: string]: [ string, string ] } = {
+	'element click intercepted': [
+		'ElementClickIntercepted',
+		'The element click command could not be completed because the element receiving the events is obscuring the ' +
+			'element that was requested clicked.'
+	],
+	'element not interactable': [
+		'ElementNotInteractable',
+		'An element command could not be completed because the element is not pointer- or keyboard interactable.'
+	],
+	'invalid argument': [ 'InvalidArgument', 'The arguments passed to a command are either invalid or malformed.' ],
+	'no such cookie': [
+		'NoSuchCookie',
+		'No cookie matching the given path name was found amongst the associated cookies of the current browsing ' +
+			'context\'s active document.'
+	],
+	'unable to capture screen': [ 'UnableToCaptureScreen', 'A screen capture was made impossible.' ]
+};
@@ -1,5 +1,6 @@
 import Task from '@dojo/core/async/Task';
 import { mixin } from '@dojo/core/lang';
+import { Capabilities } from '../interfaces';
 
 /**
  * Creates a promise that resolves itself after `ms` milliseconds.
@@ -23,6 +24,26 @@ export function forCommand(fn: Function, properties: { usesElement?: boolean, cr
 	return mixin(fn, properties);
 }
 
+/**
+ * Populates both the legacy (`platform`, `version`) and W3C (`platformName`, `browserVersion`) names of the platform
+ * and browser version in a set of capabilities reported by a remote server, which usually only reports one of them.
+ * W3C platform names are converted to the upper-case form used by JsonWireProtocol servers.
+ */
+export function fillCapabilityNames(capabilities: Capabilities): void {
+	if (capabilities.platform && !capabilities.platformName) {
+		capabilities.platformName = capabilities.platform;
+	}
+	if (capabilities.platformName && !capabilities.platform) {
+		capabilities.platform = String(capabilities.platformName).toUpperCase();
+	}
+	if (capabilities.version && !capabilities.browserVersion) {
+		capabilities.browserVersion = capabilities.version;
+	}
+	if (capabilities.browserVersion && !capabilities.version) {
+		capabilities.version = capabilities.browserVersion;
+	}
+}
+
 /**
  * Converts a function to a string representation suitable for use with the `execute` API endpoint.
  */
@@ -1,5 +1,5 @@
 import Task from '@dojo/core/async/Task';
-import statusCodes from './statusCodes';
+import { createError } from '../errors';
 import Session from '../Session';
 import Element from '../Element';
 
@@ -16,12 +16,7 @@ export default function waitForDeleted(session: Session, locator: Session | Elem
 			(function poll() {
 				if (Date.now() - startTime > originalTimeout) {
 					const always = function () {
-						const error: any = new Error();
-						error.status = 21;
-						const [ name, message ] = (<any> statusCodes)[error.status];
-						error.name = name;
-						error.message = message;
-						reject(error);
+						reject(createError(21));
 					};
 					session.setTimeout('implicit', originalTimeout).then(always, always);
 					return;
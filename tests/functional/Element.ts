@@ -3,6 +3,7 @@ import { assert } from 'chai';
 import * as util from './support/util';
 import { strategies } from 'src/lib/Locator';
 import Element from 'src/Element';
+import * as png from 'src/lib/png';
 import Session from 'src/Session';
 import Task from '@dojo/core/async/Task';
 import Test = require('intern/lib/Test');
@@ -876,6 +877,51 @@ registerSuite(function () {
 			return suite;
 		})(),
 
+		'#takeScreenshot': (function () {
+			function checkScreenshot(this: Test, forceCrop: boolean) {
+				if (!session.capabilities.takesScreenshot) {
+					this.skip('screenshots not supported');
+				}
+
+				this.async(30000);
+
+				const brokenElementScreenshot = session.capabilities.brokenElementScreenshot;
+				let pixelRatio: number;
+
+				return session.get(toUrl('tests/functional/data/dimensions.html')).then(function () {
+					return session.execute<number>('return window.devicePixelRatio || 1;');
+				}).then(function (ratio) {
+					pixelRatio = ratio;
+					if (forceCrop) {
+						session.capabilities.brokenElementScreenshot = true;
+					}
+					return session.findById('b');
+				}).then(function (element) {
+					return element.takeScreenshot();
+				}).then(function (screenshot) {
+					const image = png.decode(screenshot);
+					assert.closeTo(image.width, 10 * pixelRatio, 1);
+					assert.closeTo(image.height, 10 * pixelRatio, 1);
+
+					const centre = (Math.floor(image.height / 2) * image.width + Math.floor(image.width / 2)) * 4;
+					assert.deepEqual(Array.prototype.slice.call(image.data, centre, centre + 4), [ 0, 255, 0, 255 ],
+						'Screenshot should show the element');
+				}).finally(function () {
+					session.capabilities.brokenElementScreenshot = brokenElementScreenshot;
+				});
+			}
+
+			return {
+				'native'(this: Test) {
+					return checkScreenshot.call(this, false);
+				},
+
+				'cropped'(this: Test) {
+					return checkScreenshot.call(this, true);
+				}
+			};
+		})(),
+
 		'#getComputedStyle'() {
 			/*jshint maxlen:140 */
 
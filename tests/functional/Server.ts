@@ -167,6 +167,7 @@ registerSuite(function () {
 						assert.strictEqual(session.sessionId, 'test');
 						assert.strictEqual(session.server, server);
 						assert.isTrue((<any> session.capabilities).isMockCapabilities);
+						assert.isFalse(session.capabilities.isWebDriver);
 					});
 				},
 
@@ -178,6 +179,44 @@ registerSuite(function () {
 			};
 		})(),
 
+		'#createSession W3C dialect'() {
+			const oldPost = server.post;
+			let requestData: any;
+			server.fixSessionCapabilities = false;
+			server.post = function (method: string, data: any) {
+				requestData = data;
+				return Task.resolve({
+					value: {
+						sessionId: 'test',
+						capabilities: { browserName: 'firefox' }
+					}
+				});
+			};
+
+			return server.createSession({
+				browserName: 'firefox',
+				version: '54',
+				platform: 'ANY',
+				'idle-timeout': 30,
+				'moz:firefoxOptions': { args: [] }
+			} as Capabilities).then(function (session: Session) {
+				assert.deepEqual(requestData.capabilities, {
+					alwaysMatch: {},
+					firstMatch: [ {
+						browserName: 'firefox',
+						browserVersion: '54',
+						'moz:firefoxOptions': { args: [] }
+					} ]
+				}, 'Non-standard capabilities should be converted or removed from the W3C payload');
+				assert.strictEqual(session.sessionId, 'test');
+				assert.strictEqual(session.capabilities.browserName, 'firefox');
+				assert.isTrue(session.capabilities.isWebDriver);
+			}).finally(function () {
+				server.fixSessionCapabilities = true;
+				server.post = oldPost;
+			});
+		},
+
 		'#deleteSession'() {
 			const oldDelete = server.delete;
 			server.delete = function (command: string, data: any, pathData: string[]) {
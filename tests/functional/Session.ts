@@ -3,7 +3,7 @@ import * as assert from 'intern/chai!assert';
 import * as util from './support/util';
 import { strategies } from 'src/lib/Locator';
 import Element from 'src/Element';
-import { WebDriverCookie, Geolocation } from 'src/interfaces';
+import { WebDriverCookie, Geolocation, WindowRect } from 'src/interfaces';
 import Session from 'src/Session';
 import Task from '@dojo/core/async/Task';
 import Test = require('intern/lib/Test');
@@ -632,6 +632,61 @@ registerSuite(function () {
 			});
 		},
 
+		'window rect (#getWindowRect, #setWindowRect)'(this: Test) {
+			if (!session.capabilities.dynamicViewport) {
+				this.skip('dynamic viewport not supported');
+			}
+			if (session.capabilities.brokenWindowSize || session.capabilities.brokenWindowPosition) {
+				this.skip('window size or position commands are broken');
+			}
+
+			let originalRect: WindowRect;
+			return session.getWindowRect().then(function (rect: WindowRect) {
+				assert.sameMembers(Object.keys(rect), [ 'x', 'y', 'width', 'height' ]);
+				originalRect = rect;
+
+				return session.setWindowRect({ width: rect.width - 20, height: rect.height - 20 });
+			}).then(function () {
+				return session.getWindowRect();
+			}).then(function (rect: WindowRect) {
+				assert.strictEqual(rect.width, originalRect.width - 20);
+				assert.strictEqual(rect.height, originalRect.height - 20);
+				assert.strictEqual(rect.x, originalRect.x, 'Omitted properties should not change');
+				return session.setWindowRect(originalRect);
+			});
+		},
+
+		'#openNewWindow'(this: Test) {
+			if (session.capabilities.brokenWindowSwitch) {
+				this.skip('window switching is broken');
+			}
+
+			if (session.capabilities.brokenWindowClose) {
+				this.skip('window closing is broken');
+			}
+
+			let mainHandle: string;
+			let newHandle: string;
+
+			return session.getCurrentWindowHandle().then(function (handle: string) {
+				mainHandle = handle;
+				return session.openNewWindow('tab');
+			}).then(function (handle: string) {
+				newHandle = handle;
+				return session.getAllWindowHandles();
+			}).then(function (handles: string[]) {
+				assert.include(handles, newHandle);
+				return session.getCurrentWindowHandle();
+			}).then(function (handle: string) {
+				assert.strictEqual(handle, mainHandle, 'Opening a window should not change the focused window');
+				return session.switchToWindow(newHandle);
+			}).then(function () {
+				return session.closeCurrentWindow();
+			}).then(function () {
+				return session.switchToWindow(mainHandle);
+			});
+		},
+
 		'cookies (#getCookies, #setCookie, #clearCookies, #deleteCookie)'(this: Test) {
 			if (session.capabilities.brokenCookies) {
 				this.skip('cookies are broken');
@@ -1361,6 +1416,64 @@ registerSuite(function () {
 			});
 		},
 
+		'#dragAndDrop': {
+			'html5'() {
+				return session.get(toUrl('./data/dragdrop.html')).then(function () {
+					return Task.all([ session.findById('item'), session.findById('zone') ]);
+				}).then(function (elements: Element[]) {
+					return session.dragAndDrop(elements[0], elements[1]);
+				}).then(function () {
+					return session.execute('return result;');
+				}).then(function (result: any) {
+					assert.deepEqual(result.events, [ 'dragstart', 'dragenter', 'dragover', 'drop', 'dragend' ]);
+					assert.strictEqual(result.dropped, 'item', 'Data set on dragstart should be available on drop');
+				});
+			},
+
+			'native'(this: Test) {
+				if (!session.capabilities.mouseEnabled) {
+					this.skip('mouse not enabled');
+				}
+
+				return session.get(toUrl('./data/dragdrop.html')).then(function () {
+					return session.findById('handle');
+				}).then(function (element: Element) {
+					return session.dragAndDrop(element, { x: 200, y: 0 });
+				}).then(function () {
+					return session.execute('return result;');
+				}).then(function (result: any) {
+					assert.strictEqual(result.mousedown.target, 'handle');
+					assert.closeTo(result.mousedown.clientX, 50, 4);
+					assert.closeTo(result.mouseup.clientX, 250, 4);
+					assert.closeTo(result.mouseup.clientY, 75, 4);
+				});
+			}
+		},
+
+		'#spread'() {
+			function getDistance(points: { clientX: number, clientY: number }[]) {
+				return Math.sqrt(Math.pow(points[1].clientX - points[0].clientX, 2) +
+					Math.pow(points[1].clientY - points[0].clientY, 2));
+			}
+
+			return session.get(toUrl('./data/gestures.html')).then(function () {
+				return session.findById('map');
+			}).then(function (element: Element) {
+				return session.spread(element, { startDistance: 50, endDistance: 200 });
+			}).then(function () {
+				return session.execute('return result;');
+			}).then(function (result: any) {
+				// Depending on the driver, touches are reported as touch events, pointer events, or both
+				const points = result.touches.end.length ? result.touches : result.pointers;
+				assert.lengthOf(points.start, 2);
+				assert.lengthOf(points.end, 2);
+				assert.closeTo(getDistance(points.start), 50, 4);
+				assert.closeTo(getDistance(points.end), 200, 4);
+				assert.closeTo((points.end[0].clientX + points.end[1].clientX) / 2, 200, 4,
+					'The gesture should be centred on the element');
+			});
+		},
+
 		'#doubleClick'(this: Test) {
 			if (!session.capabilities.mouseEnabled) {
 				this.skip('mouse not enabled');
@@ -32,9 +32,13 @@ export function createSessionFromRemote(remote: Command<any>, SessionCtor: any =
 	}
 
 	if (remote.session) {
-		const session = new SessionCtor(remote.session.sessionId, server, remote.session.capabilities);
-		fixGet(session);
-		return (<any> server)._fillCapabilities(session);
+		return server.attachSession(remote.session.sessionId, {
+			capabilities: remote.session.capabilities,
+			sessionConstructor: SessionCtor
+		}).then(function (session) {
+			fixGet(session);
+			return session;
+		});
 	}
 
 	throw new Error('Unsupported remote');
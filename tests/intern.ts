@@ -46,7 +46,23 @@ export const loaders = {
 export let suites: string[] = [];
 
 if (typeof process !== 'undefined') {
-	suites.push('tests/unit/lib/util');
+	suites.push(
+		'tests/unit/lib/util',
+		'tests/unit/lib/endpoints',
+		'tests/unit/lib/Cassette',
+		'tests/unit/lib/retry',
+		'tests/unit/lib/CapabilityCache',
+		'tests/unit/lib/capabilityReport',
+		'tests/unit/lib/quirks',
+		'tests/unit/lib/probes',
+		'tests/unit/lib/SessionPool',
+		'tests/unit/lib/Actions',
+		'tests/unit/lib/png',
+		'tests/unit/errors',
+		'tests/unit/Element',
+		'tests/unit/Server',
+		'tests/unit/Session'
+	);
 }
 
 export const functionalSuites = [
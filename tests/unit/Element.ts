@@ -0,0 +1,120 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import Element from 'src/Element';
+import * as png from 'src/lib/png';
+import FakeServer, { jsonWireError, jsonWireSuccess } from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let fake: FakeServer;
+	let server: Server;
+
+	/**
+	 * Creates a 4x4 image in which the red channel of each pixel is its index.
+	 */
+	function createScreenshot() {
+		const data = new Buffer(64);
+		for (let i = 0; i < 16; ++i) {
+			data.writeUInt32BE((i << 24 | 255) >>> 0, i * 4);
+		}
+		return png.encode({ width: 4, height: 4, data });
+	}
+
+	function getRedChannel(screenshot: Buffer) {
+		const image = png.decode(screenshot);
+		const pixels: number[] = [];
+		for (let i = 0; i < image.data.length; i += 4) {
+			pixels.push(image.data[i]);
+		}
+		return { width: image.width, height: image.height, pixels };
+	}
+
+	return {
+		name: 'leadfoot/Element',
+
+		setup() {
+			fake = new FakeServer();
+			return fake.start().then(function (url) {
+				server = new Server(url);
+			});
+		},
+
+		beforeEach() {
+			fake.reset();
+			fake.route('get', 'session/abc/screenshot', jsonWireSuccess(createScreenshot().toString('base64')));
+			fake.route('get', 'session/abc/element/e1/size', jsonWireSuccess({ width: 2, height: 2 }));
+		},
+
+		teardown() {
+			return fake.stop();
+		},
+
+		'#takeScreenshot': {
+			'element screenshot command'() {
+				const session = new Session('abc', server, {});
+				const element = new Element('e1', session);
+				fake.route('get', 'session/abc/element/e1/screenshot', jsonWireSuccess(new Buffer('image').toString('base64')));
+
+				return element.takeScreenshot().then(function (screenshot) {
+					assert.strictEqual(screenshot.toString(), 'image');
+				});
+			},
+
+			'cropped window screenshot'() {
+				const session = new Session('abc', server, {});
+				const element = new Element('e1', session);
+				fake.route('get', 'session/abc/element/e1/screenshot', jsonWireError(9, 'Unknown command', 404));
+				fake.route('post', 'session/abc/execute', jsonWireSuccess({
+					scrollX: 0,
+					scrollY: 10,
+					height: 4,
+					pixelRatio: 1
+				}));
+				fake.route('get', 'session/abc/element/e1/location', jsonWireSuccess({ x: 1, y: 11 }));
+
+				return element.takeScreenshot().then(function (screenshot) {
+					assert.deepEqual(getRedChannel(screenshot), { width: 2, height: 2, pixels: [ 5, 6, 9, 10 ] });
+					assert.isTrue(session.capabilities.brokenElementScreenshot);
+				});
+			},
+
+			'high pixel density'() {
+				const session = new Session('abc', server, { brokenElementScreenshot: true });
+				const element = new Element('e1', session);
+				fake.route('post', 'session/abc/execute', jsonWireSuccess({
+					scrollX: 0,
+					scrollY: 0,
+					height: 2,
+					pixelRatio: 2
+				}));
+				fake.route('get', 'session/abc/element/e1/location', jsonWireSuccess({ x: 1, y: 0 }));
+				fake.route('get', 'session/abc/element/e1/size', jsonWireSuccess({ width: 1, height: 1 }));
+
+				return element.takeScreenshot().then(function (screenshot) {
+					assert.deepEqual(getRedChannel(screenshot), { width: 2, height: 2, pixels: [ 2, 3, 6, 7 ] });
+					assert.notInclude(fake.requests.map(request => request.path), 'session/abc/element/e1/screenshot',
+						'A known unsupported element screenshot command should not be used');
+				});
+			},
+
+			'element outside of the screenshot'() {
+				const session = new Session('abc', server, { brokenElementScreenshot: true });
+				const element = new Element('e1', session);
+				fake.route('post', 'session/abc/execute', jsonWireSuccess({
+					scrollX: 0,
+					scrollY: 0,
+					height: 4,
+					pixelRatio: 1
+				}));
+				fake.route('get', 'session/abc/element/e1/location', jsonWireSuccess({ x: 10, y: 0 }));
+
+				return element.takeScreenshot().then(function () {
+					throw new Error('A screenshot of an element that is not visible should fail');
+				}, function (error: Error) {
+					assert.include(error.message, 'not visible');
+				});
+			}
+		}
+	};
+});
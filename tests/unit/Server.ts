@@ -0,0 +1,940 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Task from '@dojo/core/async/Task';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import { ElementClickInterceptedError, NoAlertOpenError, NoSuchElementError, UnknownCommandError } from 'src/errors';
+import { Capabilities } from 'src/interfaces';
+import keys from 'src/keys';
+import { diffCapabilityReports } from 'src/lib/capabilityReport';
+import { sleep } from 'src/lib/util';
+import FakeServer, {
+	dropConnection,
+	iosDriverError,
+	jsonWireError,
+	jsonWireSuccess,
+	noContent,
+	redirect,
+	w3cError,
+	w3cSuccess
+} from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let fake: FakeServer;
+	let server: Server;
+
+	function assertRejects(task: Task<any>, name: string, message?: string) {
+		return task.then(function () {
+			throw new Error('Request should have failed');
+		}, function (error: any) {
+			assert.strictEqual(error.name, name);
+			if (message) {
+				assert.include(error.message, message);
+			}
+			return error;
+		});
+	}
+
+	return {
+		name: 'leadfoot/Server',
+
+		setup() {
+			fake = new FakeServer();
+			return fake.start().then(function (url) {
+				server = new Server(url);
+			});
+		},
+
+		beforeEach() {
+			fake.reset();
+		},
+
+		teardown() {
+			return fake.stop();
+		},
+
+		'#get'() {
+			fake.route('get', 'status', jsonWireSuccess({ build: { version: '1.0' } }));
+			return server.getStatus().then(function (status: any) {
+				assert.deepEqual(status, { build: { version: '1.0' } });
+				assert.lengthOf(fake.requests, 1);
+				assert.strictEqual(fake.requests[0].headers['accept'], 'application/json,text/plain;q=0.9');
+			});
+		},
+
+		'#post request data'() {
+			fake.route('post', 'session/*/url', jsonWireSuccess());
+			return server.post('session/$0/url', { url: 'about:blank' }, [ 'a/b' ]).then(function () {
+				assert.strictEqual(fake.requests[0].path, 'session/a%2Fb/url');
+				assert.deepEqual(fake.requests[0].body, { url: 'about:blank' });
+				assert.strictEqual(fake.requests[0].headers['content-length'], String(fake.requests[0].rawBody.length));
+			});
+		},
+
+		'#delete 204 response'() {
+			fake.expect('delete', 'session/*', noContent());
+			return server.deleteSession('abc').then(function () {
+				assert.lengthOf(fake.pendingRoutes, 0);
+			});
+		},
+
+		'#use': {
+			'rewrite request'() {
+				fake.route('get', 'status', jsonWireSuccess({}));
+				const handle = server.use(function (request, next) {
+					request.headers['X-Test-Id'] = 'test';
+					return next(request);
+				});
+
+				return server.getStatus().then(function () {
+					handle.destroy();
+					assert.strictEqual(fake.requests[0].headers['x-test-id'], 'test');
+					return server.getStatus();
+				}).then(function () {
+					assert.notProperty(fake.requests[1].headers, 'x-test-id', 'Removed middleware should not run');
+				});
+			},
+
+			'rewrite response'() {
+				fake.route('get', 'status', jsonWireError(13, 'Not supported'));
+				const handle = server.use(function (request, next) {
+					return next().then(function (response) {
+						response.status = 200;
+						response.data = { status: 0, value: 'fixed' };
+						return response;
+					});
+				});
+
+				return server.getStatus().then(function (status) {
+					handle.destroy();
+					assert.strictEqual(status, 'fixed');
+				});
+			},
+
+			'order'() {
+				fake.route('get', 'status', jsonWireSuccess({}));
+				const calls: string[] = [];
+				const handles = [ 'a', 'b' ].map(function (name) {
+					return server.use(function (request, next) {
+						calls.push(name + ' request');
+						return next().then(function (response) {
+							calls.push(name + ' response');
+							return response;
+						});
+					});
+				});
+
+				return server.getStatus().then(function () {
+					handles.forEach(handle => handle.destroy());
+					assert.deepEqual(calls, [ 'a request', 'b request', 'b response', 'a response' ]);
+				});
+			},
+
+			'short circuit'() {
+				const handle = server.use(function (request) {
+					return {
+						status: 200,
+						headers: null,
+						text: '',
+						data: { status: 0, value: request.url },
+						response: null
+					};
+				});
+
+				return server.getStatus().then(function (status) {
+					handle.destroy();
+					assert.strictEqual(status, server.url + 'status');
+					assert.lengthOf(fake.requests, 0);
+				});
+			},
+
+			'throwing middleware'() {
+				fake.route('get', 'status', jsonWireSuccess({}));
+				const handle = server.use(function () {
+					throw new Error('Oops');
+				});
+
+				let task: Task<any>;
+				assert.doesNotThrow(function () {
+					task = server.getStatus();
+				}, 'A middleware that throws should not throw from the request method');
+
+				return task.then(function () {
+					throw new Error('Request should have failed');
+				}, function (error: Error) {
+					assert.include(error.message, 'Oops');
+					assert.lengthOf(fake.requests, 0);
+				}).finally(function () {
+					handle.destroy();
+				});
+			}
+		},
+
+		'#retryPolicy': {
+			beforeEach() {
+				server.retryPolicy = { maxAttempts: 3, delay: 1, jitter: 0 };
+			},
+
+			afterEach() {
+				server.retryPolicy = null;
+			},
+
+			'retry GET'() {
+				const events: any[] = [];
+				const handle = server.on('retry', function (event: any) {
+					events.push(event);
+				});
+
+				fake.route('get', 'status', jsonWireSuccess({ ready: true }));
+				fake.expect('get', 'status', dropConnection());
+				fake.expect('get', 'status', { status: 503, body: 'Service Unavailable' });
+
+				return server.getStatus().then(function (status) {
+					handle.destroy();
+					assert.deepEqual(status, { ready: true });
+					assert.lengthOf(fake.requests, 3);
+					assert.deepEqual(events.map(event => event.attempt), [ 1, 2 ]);
+					assert.strictEqual(events[0].error.name, 'UnknownError');
+					assert.strictEqual(events[0].delay, 1);
+					assert.strictEqual(events[1].delay, 2);
+					assert.strictEqual(events[1].request.method, 'GET');
+				});
+			},
+
+			'max attempts'() {
+				fake.route('get', 'status', { status: 503, body: 'Service Unavailable' });
+				return assertRejects(server.getStatus(), 'UnknownError').then(function () {
+					assert.lengthOf(fake.requests, 3);
+				});
+			},
+
+			'POST'() {
+				fake.route('post', 'session/abc/url', { status: 502, body: 'Bad Gateway' });
+				return assertRejects(server.post('session/abc/url', { url: 'about:blank' }), 'UnknownError')
+					.then(function () {
+						assert.lengthOf(fake.requests, 1, 'POST requests should not be retried by default');
+						return assertRejects(server.post('session/abc/url', { url: 'about:blank' }, null, {
+							safe: true
+						}), 'UnknownError');
+					})
+					.then(function () {
+						assert.lengthOf(fake.requests, 4, 'Safe POST requests should be retried');
+					});
+			},
+
+			'new session'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				fake.expect('post', 'session', jsonWireError(13, 'Error forwarding the new session: Session queue full'));
+
+				return server.createSession({ browserName: 'chrome', fixSessionCapabilities: false })
+					.then(function (session: Session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						assert.lengthOf(fake.requests, 2, 'A new session request should be retried');
+					});
+			},
+
+			'new session transient failure'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				fake.expect('post', 'session', { status: 502, body: 'Bad Gateway' });
+
+				return assertRejects(server.createSession({ browserName: 'chrome', fixSessionCapabilities: false }),
+					'UnknownError').then(function () {
+						assert.lengthOf(fake.requests, 1,
+							'A new session request that may have created a session should not be retried');
+					});
+			},
+
+			'non-transient error'() {
+				fake.route('get', 'status', jsonWireError(13, 'Oops'));
+				return assertRejects(server.getStatus(), 'UnknownError').then(function () {
+					assert.lengthOf(fake.requests, 1);
+				});
+			}
+		},
+
+		'#probeCapabilities'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/orientation', jsonWireError(9, 'Not implemented', 501));
+			fake.route('get', 'session/abc/window_handle', jsonWireSuccess('main'));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+
+			return server.probeCapabilities(session).then(function (report) {
+				assert.deepEqual(report.environment, { browserName: 'fake', platform: 'LINUX' });
+
+				const rotatable = report.capabilities['rotatable'];
+				assert.isFalse(rotatable.value);
+				assert.isTrue(rotatable.tested);
+				assert.isAtLeast(rotatable.duration, 0);
+				assert.instanceOf(rotatable.error, UnknownCommandError, 'Swallowed errors should be reported');
+
+				assert.deepEqual(report.capabilities['supportsNavigationDataUris'], {
+					value: true,
+					tested: true,
+					duration: report.capabilities['supportsNavigationDataUris'].duration
+				});
+				assert.isFalse(report.capabilities['shortcutKey'].tested);
+				assert.strictEqual(report.capabilities['shortcutKey'].duration, 0);
+
+				assert.isFalse(session.capabilities.rotatable, 'Detected capabilities should be added to the session');
+				assert.isTrue(session.capabilities._filled);
+			});
+		},
+
+		'#quirks'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+			server.quirks = { capabilities: { rotatable: true }, skip: [ 'takesScreenshot' ] };
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+
+			return server.probeCapabilities(session).then(function (report) {
+				assert.isTrue(session.capabilities.rotatable);
+				assert.notProperty(session.capabilities, 'takesScreenshot');
+				assert.deepEqual(report.capabilities['rotatable'], { value: true, tested: false, duration: 0 });
+				assert.notProperty(report.capabilities, 'takesScreenshot');
+				assert.isFalse(fake.requests.some(function (request) {
+					return request.path === 'session/abc/orientation' || request.path === 'session/abc/screenshot';
+				}), 'Forced and skipped capabilities should not be probed');
+			}).finally(function () {
+				server.quirks = null;
+			});
+		},
+
+		'#quirks unknown profile'() {
+			server.quirks = 'no-such-profile';
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+
+			let refresh: Task<Session>;
+			let probe: Task<any>;
+			assert.doesNotThrow(function () {
+				refresh = server.refreshCapabilities(session);
+				probe = server.probeCapabilities(session);
+			}, 'An unknown quirk profile should not throw synchronously');
+
+			return assertRejects(refresh, 'Error', 'Unknown quirk profile').then(function () {
+				return assertRejects(probe, 'Error', 'Unknown quirk profile');
+			}).then(function () {
+				assert.lengthOf(fake.requests, 0);
+			}).finally(function () {
+				server.quirks = null;
+			});
+		},
+
+		'#addFeatureTest'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+			const page = '<!DOCTYPE html><div id="a"></div>';
+			let probedCapabilities: any;
+
+			const handles = [ server.addFeatureTest('brokenCustom', {
+				page,
+				probe(session, capabilities) {
+					probedCapabilities = { ...capabilities };
+					return session.getPageTitle().then(function (title) {
+						return title !== 'b';
+					});
+				}
+			}) ];
+			handles.push(server.addFeatureTest('brokenThrows', {
+				failureValue: true,
+				probe() {
+					throw new Error('Oops');
+				}
+			}));
+			handles.push(server.addFeatureTest('skipped', {
+				when: capabilities => capabilities.browserName !== 'fake',
+				probe: () => true
+			}));
+			server.addFeatureTest('removed', { probe: () => true }).destroy();
+
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+
+			return server.probeCapabilities(session).then(function (report) {
+				const capabilities: any = session.capabilities;
+				assert.isTrue(capabilities.brokenCustom);
+				assert.isTrue(capabilities.brokenThrows, 'Failed probes should use the failure value');
+				assert.notProperty(capabilities, 'skipped');
+				assert.notProperty(capabilities, 'removed');
+
+				assert.property(probedCapabilities, 'brokenHtmlTagName',
+					'Custom tests should run after the built-in tests');
+				assert.isTrue(report.capabilities['brokenCustom'].tested);
+				assert.propertyVal(report.capabilities['brokenThrows'].error, 'message', 'Oops');
+
+				const pageUrl = 'data:text/html;charset=utf-8,' + encodeURIComponent(page);
+				assert.isTrue(fake.requests.some(function (request) {
+					return request.path === 'session/abc/url' && request.body && request.body.url === pageUrl;
+				}), 'The page fixture should be loaded');
+			}).finally(function () {
+				handles.forEach(handle => handle.destroy());
+			});
+		},
+
+		'batched script feature tests'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+			fake.route('post', 'session/abc/execute', function (request) {
+				const isBatch = /scriptA/.test(request.body.script) && /scriptB/.test(request.body.script);
+				return jsonWireSuccess(isBatch ? [ { value: 'a' }, { error: 'Oops' } ] : null);
+			});
+
+			const page = '<!DOCTYPE html><p>batch</p>';
+			const handles = [
+				server.addFeatureTest('customA', { page, script: 'return "scriptA";' }),
+				server.addFeatureTest('customB', { page, script: 'return "scriptB";', failureValue: 'failed' })
+			];
+
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+
+			return server.probeCapabilities(session).then(function (report) {
+				const capabilities: any = session.capabilities;
+				assert.strictEqual(capabilities.customA, 'a');
+				assert.strictEqual(capabilities.customB, 'failed');
+				assert.propertyVal(report.capabilities['customB'].error, 'message', 'Oops');
+
+				const batches = fake.requests.filter(function (request) {
+					return request.path === 'session/abc/execute' && /scriptA/.test(request.body.script);
+				});
+				assert.lengthOf(batches, 1, 'Scripts for the same page should be run with one execute call');
+			}).finally(function () {
+				handles.forEach(handle => handle.destroy());
+			});
+		},
+
+		'probeConcurrency'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+			server.probeConcurrency = 1;
+
+			return server.probeCapabilities(new Session('abc', server, { browserName: 'fake', platform: 'LINUX' }))
+				.then(function (serialReport) {
+					server.probeConcurrency = 4;
+					return server.probeCapabilities(new Session('abc', server, {
+						browserName: 'fake',
+						platform: 'LINUX'
+					})).then(function (concurrentReport) {
+						assert.deepEqual(diffCapabilityReports(serialReport, concurrentReport), [],
+							'Concurrent probing should detect the same capabilities');
+					});
+				}).finally(function () {
+					server.probeConcurrency = 4;
+				});
+		},
+
+		'concurrent requests feature test'() {
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+			fake.route('post', 'session/abc/execute', function (request) {
+				return jsonWireSuccess(request.body.args ? request.body.args[0] : null);
+			});
+
+			const session = new Session('abc', server, { browserName: 'fake', platform: 'LINUX' });
+			session.pipelining = 'parallel';
+
+			return server.probeCapabilities(session).then(function () {
+				assert.isTrue(session.capabilities.supportsConcurrentRequests);
+
+				fake.route('post', 'session/abc/execute', dropConnection());
+				return server.probeCapabilities(session);
+			}).then(function (report) {
+				assert.isFalse(session.capabilities.supportsConcurrentRequests,
+					'A server that fails parallel requests should not support concurrent requests');
+				assert.isDefined(report.capabilities['supportsConcurrentRequests'].error);
+			});
+		},
+
+		'concurrent requests feature test with serial policy'() {
+			fake.route('post', 'session', jsonWireSuccess({ browserName: 'fake', platform: 'LINUX' }, 'abc'));
+			fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+			fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+			return server.createSession({ browserName: 'fake' }).then(function (session: Session) {
+				const probeRequests = fake.requests.filter(function (request) {
+					return request.path === 'session/abc/execute' && request.body.script === 'return arguments[0];';
+				});
+
+				assert.lengthOf(probeRequests, 0, 'Parallel requests should not be sent under a serial policy');
+				assert.isUndefined(session.capabilities.supportsConcurrentRequests);
+			});
+		},
+
+		'#attachSession': {
+			'detect capabilities'() {
+				fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome', platform: 'LINUX' }, 'abc'));
+				fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+				fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+
+				const states: string[] = [];
+				class RecordingSession extends Session {
+					constructor(sessionId: string, server: Server, capabilities: Capabilities) {
+						super(sessionId, server, capabilities);
+						this.onStateChange(event => states.push(event.state));
+					}
+				}
+
+				return server.attachSession('abc', { sessionConstructor: RecordingSession }).then(function (session) {
+					assert.instanceOf(session, RecordingSession);
+					assert.strictEqual(session.sessionId, 'abc');
+					assert.strictEqual(session.capabilities.browserName, 'chrome');
+					assert.isTrue(session.capabilities._filled);
+					assert.property(session.capabilities, 'brokenWindowSize');
+					assert.deepEqual(states, [ 'creating', 'active' ],
+						'The session should be creating while its capabilities are detected');
+				});
+			},
+
+			'restore capabilities'() {
+				fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome', platform: 'LINUX' }, 'abc'));
+
+				return server.attachSession('abc', {
+					capabilities: { browserName: 'chrome', brokenClick: true, isWebDriver: false },
+					quirks: { capabilities: { brokenWindowSize: true } }
+				}).then(function (session) {
+					assert.isTrue(session.capabilities.brokenClick);
+					assert.isTrue(session.capabilities.brokenWindowSize);
+					assert.strictEqual(session.capabilities.platform, 'LINUX');
+					assert.isTrue(session.capabilities._filled);
+					assert.lengthOf(fake.requests, 1, 'Capabilities should not be detected again');
+				});
+			},
+
+			'w3c'() {
+				fake.route('get', 'session/abc', w3cError('unknown command', 'Unknown command', 404));
+
+				return server.attachSession('abc', {
+					capabilities: { browserName: 'firefox', isWebDriver: true }
+				}).then(function (session) {
+					assert.strictEqual(session.dialect, 'w3c');
+				});
+			},
+
+			'detect dialect'() {
+				fake.route('get', 'session/abc', w3cSuccess({ browserName: 'chrome' }));
+
+				return server.attachSession('abc', { fixSessionCapabilities: false }).then(function (session) {
+					assert.strictEqual(session.dialect, 'w3c', 'A response without a status should be from a W3C server');
+
+					fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+					return server.attachSession('abc', { fixSessionCapabilities: false });
+				}).then(function (session) {
+					assert.strictEqual(session.dialect, 'jsonwire');
+
+					fake.route('get', 'session/abc', w3cError('unknown command', 'Unknown command', 404));
+					return server.attachSession('abc', { capabilities: { browserName: 'firefox' } });
+				}).then(function (session) {
+					assert.strictEqual(session.dialect, 'w3c',
+						'A server that cannot retrieve session capabilities should be a W3C server');
+
+					return server.attachSession('abc', {
+						capabilities: { browserName: 'firefox', isWebDriver: true },
+						dialect: 'jsonwire'
+					});
+				}).then(function (session) {
+					assert.strictEqual(session.dialect, 'jsonwire', 'An explicit dialect should take precedence');
+				});
+			},
+
+			'no such session'() {
+				fake.route('get', 'session/abc', jsonWireError(6, 'No such session', 404));
+				return assertRejects(server.attachSession('abc', { fixSessionCapabilities: false }), 'NoSuchDriver');
+			}
+		},
+
+		'#getSessions': {
+			'jsonwire'() {
+				fake.route('get', 'sessions', jsonWireSuccess([
+					{ id: 'abc', capabilities: { browserName: 'chrome', platform: 'LINUX', version: '60' } },
+					{ sessionId: 'def', capabilities: { browserName: 'chrome' }, start: '2017-06-01T12:00:00Z' }
+				]));
+
+				return server.getSessions().then(function (sessions) {
+					assert.lengthOf(sessions, 2);
+					assert.strictEqual(sessions[0].id, 'abc');
+					assert.strictEqual(sessions[0].capabilities.platformName, 'LINUX');
+					assert.strictEqual(sessions[0].capabilities.browserVersion, '60');
+					assert.isUndefined(sessions[0].startTime);
+					assert.strictEqual(sessions[1].id, 'def', 'ChromeDriver session IDs should be normalised');
+					assert.strictEqual(sessions[1].startTime.getTime(), Date.UTC(2017, 5, 1, 12));
+				});
+			},
+
+			'w3c capability names'() {
+				fake.route('get', 'sessions', w3cSuccess([
+					{ id: 'abc', capabilities: { browserName: 'firefox', platformName: 'linux', browserVersion: '54' } }
+				]));
+
+				return server.getSessions().then(function (sessions) {
+					assert.strictEqual(sessions[0].capabilities.platform, 'LINUX');
+					assert.strictEqual(sessions[0].capabilities.version, '54');
+				});
+			},
+
+			'BrowserStack'() {
+				fake.route('get', 'sessions', { body: [ { id: 'abc', capabilities: {} } ] });
+				return server.getSessions().then(function (sessions) {
+					assert.deepEqual(sessions.map(session => session.id), [ 'abc' ]);
+				});
+			},
+
+			'delete and attach'() {
+				fake.route('get', 'sessions', jsonWireSuccess([ { id: 'abc', capabilities: { browserName: 'chrome' } } ]));
+				fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				fake.expect('delete', 'session/abc', jsonWireSuccess(null));
+
+				return server.getSessions().then(function (sessions) {
+					return sessions[0].attach({ fixSessionCapabilities: false }).then(function (session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						return sessions[0].delete();
+					});
+				}).then(function () {
+					assert.lengthOf(fake.pendingRoutes, 0);
+				});
+			}
+		},
+
+		'session tracking': {
+			beforeEach() {
+				let count = 0;
+				fake.route('post', 'session', function () {
+					return jsonWireSuccess({ browserName: 'chrome' }, 'session' + (++count));
+				});
+				fake.route('delete', 'session/*', jsonWireSuccess(null));
+			},
+
+			'#quitAll'() {
+				return Task.all([
+					server.createSession({ fixSessionCapabilities: false }),
+					server.createSession({ fixSessionCapabilities: false })
+				]).then(function (sessions: Session[]) {
+					assert.lengthOf(server.trackedSessions, 2);
+					return sessions[0].quit();
+				}).then(function () {
+					assert.deepEqual(server.trackedSessions.map(session => session.sessionId), [ 'session2' ],
+						'Quit sessions should no longer be tracked');
+					return server.quitAll();
+				}).then(function () {
+					assert.lengthOf(server.trackedSessions, 0);
+					assert.deepEqual(fake.requests.filter(request => request.method === 'delete')
+						.map(request => request.path), [ 'session/session1', 'session/session2' ]);
+				});
+			},
+
+			'#quitAll failed quit'() {
+				fake.expect('delete', 'session/session1', jsonWireError(13, 'Oops'));
+				fake.expect('delete', 'session/session2', jsonWireError(6, 'No such session'));
+
+				return Task.all([
+					server.createSession({ fixSessionCapabilities: false }),
+					server.createSession({ fixSessionCapabilities: false })
+				]).then(function () {
+					return server.quitAll();
+				}).then(function () {
+					assert.deepEqual(server.trackedSessions.map(session => session.sessionId), [ 'session1' ],
+						'Sessions that could not be quit should still be tracked');
+					return server.quitAll();
+				}).then(function () {
+					assert.lengthOf(server.trackedSessions, 0);
+				});
+			},
+
+			'#quitOnExit'() {
+				const signalCount = process.listeners('SIGINT').length;
+				const listenerCount = process.listeners('beforeExit').length;
+				const exceptionCount = process.listeners('uncaughtException').length;
+				const handle = server.quitOnExit(1000);
+				assert.lengthOf(process.listeners('SIGINT'), signalCount + 1);
+				assert.lengthOf(process.listeners('beforeExit'), listenerCount + 1);
+				assert.lengthOf(process.listeners('uncaughtException'), exceptionCount,
+					'Uncaught exceptions should be left to the application');
+
+				return server.createSession({ fixSessionCapabilities: false }).then(function () {
+					process.emit('beforeExit', 0);
+					assert.lengthOf(process.listeners('beforeExit'), listenerCount + 1,
+						'The hook should stay registered after a normal exit');
+					assert.lengthOf(process.listeners('SIGINT'), signalCount + 1);
+
+					return sleep(50);
+				}).then(function () {
+					assert.lengthOf(server.trackedSessions, 0, 'Sessions should be quit when the process exits');
+					return server.createSession({ fixSessionCapabilities: false });
+				}).then(function () {
+					process.emit('beforeExit', 0);
+					return sleep(50);
+				}).then(function () {
+					assert.lengthOf(server.trackedSessions, 0,
+						'Sessions created after the hook ran should be quit when the process exits again');
+				}).finally(function () {
+					handle.destroy();
+				});
+			},
+
+			'#quitOnExit uncaught exception'() {
+				const exceptionCount = process.listeners('uncaughtException').length;
+				const handle = server.quitOnExit({ timeout: 1000, uncaughtException: true });
+				assert.lengthOf(process.listeners('uncaughtException'), exceptionCount + 1,
+					'Uncaught exceptions should be handled if requested');
+
+				handle.destroy();
+				assert.lengthOf(process.listeners('uncaughtException'), exceptionCount);
+			},
+
+			'#quitOnExit uncaught exception callback'() {
+				const exceptionCount = process.listeners('uncaughtException').length;
+				const error = new Error('Oops');
+				let handle: { destroy(): void };
+
+				return new Task<Error>(function (resolve) {
+					handle = server.quitOnExit({ timeout: 1000, uncaughtException: resolve });
+					// Only the hook is called, since emitting the event would also reach the listener of the test runner
+					const listeners = process.listeners('uncaughtException');
+					listeners[listeners.length - 1](error);
+					assert.lengthOf(process.listeners('uncaughtException'), exceptionCount,
+						'The hook should be removed before the error is handed back');
+				}).then(function (handledError) {
+					assert.strictEqual(handledError, error, 'The error should be passed to the callback');
+				}).finally(function () {
+					handle.destroy();
+				});
+			}
+		},
+
+		'error normalisation': {
+			'jsonwire status'() {
+				fake.route('post', 'session/*/element', jsonWireError(7, 'Unable to locate element'));
+				return assertRejects(server.post('session/$0/element', { using: 'id', value: 'a' }, [ 'abc' ]),
+					'NoSuchElement', 'Unable to locate element').then(function (error: any) {
+						assert.instanceOf(error, NoSuchElementError);
+						assert.strictEqual(error.status, 7);
+						assert.deepEqual(error.detail, { message: 'Unable to locate element' });
+						assert.strictEqual(error.request.method, 'POST');
+					});
+			},
+
+			'w3c error code'() {
+				fake.route('get', 'session/*/alert/text', w3cError('no such alert', 'No alert is open', 404));
+				return assertRejects(server.get('session/$0/alert/text', null, [ 'abc' ]), 'NoAlertOpenError',
+					'No alert is open').then(function (error) {
+						assert.instanceOf(error, NoAlertOpenError);
+					});
+			},
+
+			'w3c-only error code'() {
+				fake.route('post', 'session/*/element/*/click', w3cError('element click intercepted', 'Obscured', 400));
+				return assertRejects(server.post('session/$0/element/$1/click', {}, [ 'abc', 'e1' ]),
+					'ElementClickIntercepted', 'Obscured').then(function (error) {
+						assert.instanceOf(error, ElementClickInterceptedError);
+						assert.isUndefined(error.status);
+					});
+			},
+
+			'404 without data'() {
+				return assertRejects(server.get('session/$0/unknown', null, [ 'abc' ]), 'UnknownCommand');
+			},
+
+			'500 without data'() {
+				fake.route('get', 'status', { status: 500, body: 'Internal error' });
+				return assertRejects(server.getStatus(), 'UnknownError', 'Internal error');
+			},
+
+			'ios-driver malformed error'() {
+				fake.route('get', 'session/*/title', iosDriverError('cannot find command: title'));
+				return assertRejects(server.get('session/$0/title', null, [ 'abc' ]), 'UnknownCommand',
+					'cannot find command');
+			},
+
+			'501 unknown error'() {
+				fake.route('get', 'session/*/title', jsonWireError(13, 'Not implemented', 501));
+				return assertRejects(server.get('session/$0/title', null, [ 'abc' ]), 'UnknownCommand');
+			},
+
+			'unsupported operation exception'() {
+				fake.route('get', 'session/*/title', {
+					status: 500,
+					body: {
+						status: 13,
+						value: { message: 'Oops', class: 'org.openqa.selenium.UnsupportedCommandException' }
+					}
+				});
+				return assertRejects(server.get('session/$0/title', null, [ 'abc' ]), 'UnknownCommand');
+			},
+
+			'GhostDriver 405'() {
+				fake.route('post', 'session/*/title', jsonWireError(13, 'Invalid Command Method', 405));
+				return assertRejects(server.post('session/$0/title', null, [ 'abc' ]), 'UnknownCommand');
+			}
+		},
+
+		'#createSession': {
+			'jsonwire'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				return server.createSession({ browserName: 'chrome', fixSessionCapabilities: false })
+					.then(function (session: Session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						assert.strictEqual(session.capabilities.browserName, 'chrome');
+						assert.isFalse(session.capabilities.isWebDriver);
+						assert.notProperty(fake.requests[0].body.desiredCapabilities, 'fixSessionCapabilities');
+					});
+			},
+
+			'w3c'() {
+				fake.route('post', 'session', w3cSuccess({
+					sessionId: 'abc',
+					capabilities: { browserName: 'firefox' }
+				}));
+				return server.createSession({ browserName: 'firefox', fixSessionCapabilities: false })
+					.then(function (session: Session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						assert.isTrue(session.capabilities.isWebDriver);
+					});
+			},
+
+			'w3c capabilities'() {
+				fake.route('post', 'session', w3cSuccess({
+					sessionId: 'abc',
+					capabilities: { browserName: 'firefox' }
+				}));
+
+				const desired = { browserName: 'firefox', platform: 'WIN8', version: '54', fixSessionCapabilities: false };
+				const required = { browserName: 'chrome', 'goog:chromeOptions': { args: [] } } as Capabilities;
+
+				return server.createSession(desired, required).then(function () {
+					return server.createSession({ platform: 'EL_CAPITAN', fixSessionCapabilities: false });
+				}).then(function () {
+					return server.createSession({ platform: 'LINUX', fixSessionCapabilities: false });
+				}).then(function () {
+					return server.createSession({ platform: 'ANY', fixSessionCapabilities: false });
+				}).then(function () {
+					assert.deepEqual(fake.requests[0].body.capabilities, {
+						alwaysMatch: { browserName: 'chrome', 'goog:chromeOptions': { args: [] } },
+						firstMatch: [ { platformName: 'windows', browserVersion: '54' } ]
+					}, 'Required capabilities should always match and take precedence over desired capabilities');
+					assert.deepEqual(fake.requests.slice(1).map(request => request.body.capabilities.firstMatch[0]), [
+						{ platformName: 'mac' },
+						{ platformName: 'linux' },
+						{}
+					], 'Legacy platform names should be converted to W3C platform names');
+				});
+			},
+
+			'w3c with fixed capabilities'() {
+				fake.route('post', 'session', w3cSuccess({
+					sessionId: 'abc',
+					capabilities: { browserName: 'safari', browserVersion: '10.1', platformName: 'mac' }
+				}));
+				fake.route('post', /^session\/abc\//, w3cSuccess(null));
+				fake.route('get', /^session\/abc\//, w3cSuccess(null));
+
+				return server.createSession({ browserName: 'safari' }).then(function (session: Session) {
+					assert.isTrue(session.capabilities.isWebDriver);
+					assert.strictEqual(session.capabilities.platform, 'MAC',
+						'The legacy platform name should be filled in from the W3C platform name');
+					assert.strictEqual(session.capabilities.version, '10.1',
+						'The legacy browser version should be filled in from the W3C browser version');
+					assert.strictEqual(session.capabilities.shortcutKey, keys.COMMAND);
+				});
+			},
+
+			'window command defects'() {
+				fake.route('post', 'session', w3cSuccess({
+					sessionId: 'abc',
+					capabilities: { browserName: 'fake', platformName: 'linux' }
+				}));
+				fake.route('post', /^session\/abc\//, w3cSuccess(null));
+				fake.route('get', /^session\/abc\//, w3cSuccess(null));
+				fake.route('get', 'session/abc/window/rect', w3cSuccess({ x: 0, y: 0, width: 800, height: 600 }));
+				fake.route('post', 'session/abc/window/fullscreen', w3cError('unknown command', 'Unknown command', 404));
+				fake.route('post', 'session/abc/window/new', w3cError('invalid argument', 'Invalid type', 400));
+
+				return server.createSession({ browserName: 'fake' }).then(function (session: Session) {
+					assert.isTrue(session.capabilities.brokenFullscreenWindow);
+					assert.isFalse(session.capabilities.brokenNewWindow,
+						'A server that rejects the invalid window type supports opening new windows');
+					assert.deepEqual(fake.requests.filter(request => request.path === 'session/abc/window/new')
+						.map(request => request.body), [ { type: 42 } ]);
+				});
+			},
+
+			'element screenshot defect'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'fake', platform: 'LINUX' }, 'abc'));
+				fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+				fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+				fake.route('post', 'session/abc/element', jsonWireSuccess({ ELEMENT: 'e1' }));
+				fake.route('get', 'session/abc/element/e1/screenshot', jsonWireError(9, 'Unknown command', 404));
+
+				return server.createSession({ browserName: 'fake' }).then(function (session: Session) {
+					assert.isTrue(session.capabilities.brokenElementScreenshot);
+				});
+			},
+
+			'round trips'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'fake', platform: 'LINUX' }, 'abc'));
+				fake.route('post', /^session\/abc\//, jsonWireSuccess(null));
+				fake.route('get', /^session\/abc\//, jsonWireSuccess(null));
+				fake.route('get', 'session/abc/title', jsonWireSuccess('a'));
+
+				return server.createSession({ browserName: 'fake' }).then(function () {
+					const pageLoads = fake.requests.filter(request => request.path === 'session/abc/url');
+					const executes = fake.requests.filter(request => request.path === 'session/abc/execute');
+
+					// These limits should only be raised when a new feature test cannot be batched with an existing
+					// one; a fake server that finds no elements skips many follow-up commands, so a real server
+					// receives more requests than this
+					assert.isAtMost(fake.requests.length, 67, 'Detecting capabilities should not add round trips');
+					assert.isAtMost(pageLoads.length, 20, 'Detecting capabilities should not add page loads');
+					assert.isAtMost(executes.length, 10, 'Script feature tests should be batched');
+				});
+			},
+
+			'redirect'() {
+				fake.route('post', 'session', redirect('session/abc'));
+				fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				return server.createSession({ browserName: 'chrome', fixSessionCapabilities: false })
+					.then(function (session: Session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						assert.strictEqual(session.capabilities.browserName, 'chrome');
+						assert.deepEqual(fake.requests.map(request => request.method + ' ' + request.path), [
+							'post session',
+							'get session/abc'
+						]);
+					});
+			},
+
+			'quirks'() {
+				fake.route('post', 'session', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+				return server.createSession({
+					browserName: 'chrome',
+					fixSessionCapabilities: false,
+					quirks: { capabilities: { brokenClick: true } }
+				}).then(function (session: Session) {
+					assert.isTrue(session.capabilities.brokenClick,
+						'Quirks should be applied even if capabilities are not fixed');
+					assert.notProperty(fake.requests[0].body.desiredCapabilities, 'quirks');
+				});
+			},
+
+			'unknown quirk profile'() {
+				return assertRejects(server.createSession({ quirks: 'no-such-profile' }), 'Error',
+					'Unknown quirk profile').then(function () {
+						assert.lengthOf(fake.requests, 0);
+					});
+			},
+
+			'invalid response'() {
+				fake.route('post', 'session', { body: { foo: 'bar' } });
+				return assertRejects(server.createSession({ fixSessionCapabilities: false }), 'Error',
+					'Invalid response to new session request');
+			}
+		}
+	};
+});
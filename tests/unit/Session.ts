@@ -0,0 +1,842 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Task from '@dojo/core/async/Task';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import Element from 'src/Element';
+import { JavaScriptError, NoSuchDriverError, SessionClosedError } from 'src/errors';
+import { sleep } from 'src/lib/util';
+import Actions from 'src/lib/Actions';
+import keys from 'src/keys';
+import FakeServer, { jsonWireError, jsonWireSuccess, noContent, w3cError, w3cSuccess } from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let fake: FakeServer;
+	let server: Server;
+	let running: number;
+	let maxRunning: number;
+	let draggable: boolean;
+
+	function getRequests() {
+		return fake.requests.map(request => request.method + ' ' + request.path);
+	}
+
+	function runConcurrentRequests(session: Session, count: number) {
+		fake.route('post', 'session/abc/execute', function () {
+			maxRunning = Math.max(maxRunning, ++running);
+			return sleep(20).then(function () {
+				--running;
+				return jsonWireSuccess(null);
+			});
+		});
+
+		const requests: Task<any>[] = [];
+		for (let i = 0; i < count; ++i) {
+			requests.push(session.execute('return 1;'));
+		}
+
+		return Task.all(requests);
+	}
+
+	return {
+		name: 'leadfoot/Session',
+
+		setup() {
+			fake = new FakeServer();
+			return fake.start().then(function (url) {
+				server = new Server(url);
+			});
+		},
+
+		beforeEach() {
+			fake.reset();
+		},
+
+		teardown() {
+			return fake.stop();
+		},
+
+		'#setTimeout fallback'() {
+			const session = new Session('abc', server, {});
+			fake.route('post', 'session/abc/timeouts/async_script', jsonWireSuccess());
+
+			return session.setTimeout('script', 100).then(function () {
+				assert.deepEqual(getRequests(), [
+					'post session/abc/timeouts',
+					'post session/abc/timeouts/async_script'
+				]);
+				assert.deepEqual(fake.requests[1].body, { ms: 100 });
+				return session.getTimeout('script');
+			}).then(function (ms) {
+				assert.strictEqual(ms, 100);
+			});
+		},
+
+		'retried safe requests'() {
+			const session = new Session('abc', server, { isWebDriver: true });
+			server.retryPolicy = { delay: 1, jitter: 0 };
+			fake.route('post', 'session/abc/timeouts', w3cSuccess());
+			fake.route('post', 'session/abc/execute/sync', w3cSuccess());
+			fake.expect('post', 'session/abc/timeouts', { status: 503, body: 'Service Unavailable' });
+			fake.expect('post', 'session/abc/execute/sync', { status: 503, body: 'Service Unavailable' });
+
+			return session.setTimeout('implicit', 100).then(function () {
+				assert.deepEqual(getRequests(), [ 'post session/abc/timeouts', 'post session/abc/timeouts' ],
+					'Requests that can safely be repeated should be retried');
+
+				fake.requests.splice(0);
+				return session.execute('return 1;').then(function () {
+					throw new Error('Request should have failed');
+				}, function (error: Error) {
+					assert.strictEqual(error.name, 'UnknownError');
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute/sync' ],
+						'Requests that may not be repeated safely should not be retried');
+				});
+			}).finally(function () {
+				server.retryPolicy = null;
+			});
+		},
+
+		'#setTimeout w3c'() {
+			const session = new Session('abc', server, { isWebDriver: true });
+			fake.route('post', 'session/abc/timeouts', w3cSuccess());
+
+			return session.setTimeout('page load', 100).then(function () {
+				assert.deepEqual(fake.requests[0].body, { pageLoad: 100 });
+			});
+		},
+
+		'#closeCurrentWindow fallback'() {
+			const session = new Session('abc', server, {});
+			fake.route('get', 'session/abc/window_handle', jsonWireSuccess('window'));
+			fake.route('post', 'session/abc/execute', jsonWireSuccess());
+
+			return session.closeCurrentWindow().then(function () {
+				assert.deepEqual(getRequests(), [
+					'delete session/abc/window',
+					'get session/abc/window_handle',
+					'post session/abc/execute'
+				]);
+				assert.include(fake.requests[2].body.script, 'window.close();');
+				assert.isTrue(session.capabilities.brokenDeleteWindow,
+					'Unsupported close window command should be remembered');
+			});
+		},
+
+		'#execute error'() {
+			const session = new Session('abc', server, {});
+			fake.route('post', 'session/abc/execute', jsonWireError(13, 'foo is not defined'));
+
+			return session.execute('return foo;').then(function () {
+				throw new Error('Execution should have failed');
+			}, function (error: JavaScriptError) {
+				assert.instanceOf(error, JavaScriptError, 'UnknownError should be converted to JavaScriptError');
+				assert.strictEqual(error.name, 'JavaScriptError');
+				assert.include(error.message, 'foo is not defined');
+				assert.strictEqual(error.request.method, 'POST');
+			});
+		},
+
+		'#performActions'() {
+			const session = new Session('abc', server, { isWebDriver: true, supportsKeysCommand: true });
+			fake.route('post', 'session/abc/actions', w3cSuccess());
+			fake.route('delete', 'session/abc/actions', w3cSuccess());
+
+			return session.performActions(new Actions().keyDown(keys.SHIFT).pointerDown()).then(function (): Task<any> {
+				const sequences = fake.requests[0].body.actions;
+				assert.deepEqual(sequences.map((sequence: any) => sequence.id), [ 'keyboard', 'mouse' ]);
+
+				// Shift is still held down by the keyboard input source, so the emulated keys command should release it
+				return session.pressKeys(keys.SHIFT);
+			}).then(function () {
+				assert.deepEqual(fake.requests[1].body.actions[0].actions, [ { type: 'keyUp', value: keys.SHIFT } ]);
+
+				return session.performActions([ { type: 'key', id: 'keyboard', actions: [
+					{ type: 'keyDown', value: keys.CONTROL }
+				] } ]);
+			}).then(function () {
+				return session.releaseActions();
+			}).then(function (): Task<any> {
+				assert.strictEqual(fake.requests[3].method, 'delete');
+				return session.pressKeys(keys.CONTROL);
+			}).then(function () {
+				assert.deepEqual(fake.requests[4].body.actions[0].actions, [ { type: 'keyDown', value: keys.CONTROL } ],
+					'Released keys should no longer be considered pressed');
+			});
+		},
+
+		'#dragAndDrop': {
+			beforeEach() {
+				fake.route('post', /^session\/abc\/execute/, function (request) {
+					return jsonWireSuccess(/draggable === true/.test(request.body.script) ? draggable : 'dropped');
+				});
+				fake.route('post', /^session\/abc\/(actions|moveto|buttondown|buttonup)$/, jsonWireSuccess());
+			},
+
+			'html5'() {
+				const session = new Session('abc', server, {});
+				draggable = true;
+
+				return session.dragAndDrop(new Element('source', session), new Element('target', session)).then(function () {
+					assert.lengthOf(fake.requests, 2);
+					assert.include(fake.requests[1].body.script, 'dragstart');
+					assert.deepEqual(fake.requests[1].body.args.map((arg: any) => arg && arg.ELEMENT), [
+						'source',
+						'target',
+						null
+					]);
+				});
+			},
+
+			'w3c'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+				draggable = false;
+
+				return session.dragAndDrop(new Element('source', session), { x: 10, y: 20 }).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute/sync', 'post session/abc/actions' ]);
+					assert.deepEqual(fake.requests[1].body.actions[0].actions, [
+						{ type: 'pointerMove', duration: 0, origin: {
+							ELEMENT: 'source',
+							'element-6066-11e4-a52e-4f735466cecf': 'source'
+						}, x: 0, y: 0 },
+						{ type: 'pointerDown', button: 0 },
+						{ type: 'pointerMove', duration: 0, origin: 'pointer', x: 10, y: 20 },
+						{ type: 'pointerUp', button: 0 }
+					]);
+				});
+			},
+
+			'jsonwire'() {
+				const session = new Session('abc', server, {});
+
+				return session.dragAndDrop(new Element('source', session), new Element('target', session), {
+					html5: false
+				}).then(function () {
+					assert.deepEqual(getRequests(), [
+						'post session/abc/moveto',
+						'post session/abc/buttondown',
+						'post session/abc/moveto',
+						'post session/abc/buttonup'
+					]);
+					assert.strictEqual(fake.requests[2].body.element, 'target');
+				});
+			},
+
+			'cancelled'() {
+				const session = new Session('abc', server, {});
+				fake.route('post', 'session/abc/execute', jsonWireSuccess('cancelled'));
+
+				return session.dragAndDrop(new Element('source', session), { x: 10, y: 20 }, { html5: true }).then(function () {
+					throw new Error('A cancelled drag should fail');
+				}, function (error: Error) {
+					assert.include(error.message, 'cancelled');
+				});
+			},
+
+			'not accepted'() {
+				const session = new Session('abc', server, {});
+				fake.route('post', 'session/abc/execute', jsonWireSuccess('rejected'));
+
+				return session.dragAndDrop(new Element('source', session), { x: 10, y: 20 }, { html5: true }).then(function () {
+					throw new Error('A drop that is not accepted should fail');
+				}, function (error: Error) {
+					assert.include(error.message, 'not accepted');
+				});
+			}
+		},
+
+		'gestures': {
+			beforeEach() {
+				fake.route('post', /^session\/abc\/execute/, jsonWireSuccess({ x: 200, y: 100 }));
+				fake.route('post', 'session/abc/actions', jsonWireSuccess());
+			},
+
+			'w3c spread'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+
+				return session.spread(new Element('map', session), {
+					startDistance: 100,
+					endDistance: 200,
+					steps: 2,
+					duration: 100
+				}).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/actions' ]);
+
+					const sequences = fake.requests[0].body.actions;
+					assert.deepEqual(sequences.map((sequence: any) => [ sequence.id, sequence.parameters.pointerType ]), [
+						[ 'finger1', 'touch' ],
+						[ 'finger2', 'touch' ]
+					]);
+					assert.deepEqual(sequences[0].actions.map((action: any) => action.type), [
+						'pointerMove',
+						'pointerDown',
+						'pointerMove',
+						'pointerMove',
+						'pointerUp'
+					]);
+					assert.deepEqual(sequences[0].actions[0].origin.ELEMENT, 'map');
+					assert.deepEqual(sequences.map((sequence: any) => {
+						return sequence.actions.filter((action: any) => action.type === 'pointerMove')
+							.map((action: any) => [ action.x, action.y, action.duration ]);
+					}), [
+						[ [ -50, 0, 0 ], [ -75, 0, 50 ], [ -100, 0, 50 ] ],
+						[ [ 50, 0, 0 ], [ 75, 0, 50 ], [ 100, 0, 50 ] ]
+					]);
+				});
+			},
+
+			'w3c uneven step duration'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+
+				return session.pinch(new Element('map', session), { duration: 1000, steps: 3 }).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/actions' ]);
+					assert.deepEqual(fake.requests[0].body.actions[0].actions
+						.filter((action: any) => action.type === 'pointerMove')
+						.map((action: any) => action.duration), [ 0, 333, 333, 333 ],
+						'Action durations should be whole milliseconds');
+					assert.isUndefined(session.capabilities.brokenTouchActions);
+				});
+			},
+
+			'w3c rotate around the viewport'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+
+				return session.rotate({ distance: 100, steps: 2 }).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute/sync', 'post session/abc/actions' ]);
+					assert.deepEqual(fake.requests[1].body.actions.map((sequence: any) => {
+						return sequence.actions.filter((action: any) => action.type === 'pointerMove')
+							.map((action: any) => [ action.origin, action.x, action.y ]);
+					}), [
+						[ [ 'viewport', 150, 100 ], [ 'viewport', 165, 65 ], [ 'viewport', 200, 50 ] ],
+						[ [ 'viewport', 250, 100 ], [ 'viewport', 235, 135 ], [ 'viewport', 200, 150 ] ]
+					]);
+				});
+			},
+
+			'jsonwire swipe'() {
+				const session = new Session('abc', server, {});
+
+				return session.swipe(new Element('list', session), { x: 100, fingers: 3, steps: 1 }).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute' ]);
+					assert.include(fake.requests[0].body.script, 'touchstart');
+					assert.strictEqual(fake.requests[0].body.args[0].ELEMENT, 'list');
+					assert.deepEqual(fake.requests[0].body.args[1], [
+						[ { x: 0, y: -40 }, { x: 100, y: -40 } ],
+						[ { x: 0, y: 0 }, { x: 100, y: 0 } ],
+						[ { x: 0, y: 40 }, { x: 100, y: 40 } ]
+					]);
+				});
+			},
+
+			'simulated gesture script'() {
+				const session = new Session('abc', server, {});
+
+				return session.swipe(new Element('list', session), { x: 100, fingers: 2, steps: 1 }).then(function () {
+					const events: any[] = [];
+					const target = {
+						getBoundingClientRect() {
+							return { left: 0, top: 0, width: 200, height: 100 };
+						},
+						dispatchEvent(event: any) {
+							events.push(event);
+						}
+					};
+
+					function FakeEvent(type: string, properties: any) {
+						properties.type = type;
+						return properties;
+					}
+
+					// The script is run with a minimal fake DOM, which is enough to show that it does not depend on
+					// anything that only exists in Node.js, like the helpers the TypeScript compiler emits
+					const script = fake.requests[0].body.script;
+					const simulate = new Function('document', 'window', 'PointerEvent', 'Touch', 'TouchEvent',
+						'return function () {' + script + '};');
+
+					simulate({
+						body: target,
+						elementFromPoint() {
+							return target;
+						}
+					}, {
+						innerWidth: 200,
+						innerHeight: 100,
+						pageXOffset: 0,
+						pageYOffset: 10,
+						screenX: 0,
+						screenY: 0
+					}, FakeEvent, function (properties: any) {
+						return properties;
+					}, FakeEvent).apply(null, [ target, fake.requests[0].body.args[1] ]);
+
+					assert.deepEqual(events.map(event => event.type), [
+						'pointerdown',
+						'pointerdown',
+						'touchstart',
+						'pointermove',
+						'pointermove',
+						'touchmove',
+						'pointerup',
+						'pointerup',
+						'touchend'
+					]);
+					assert.deepEqual([ events[3].clientX, events[3].clientY, events[3].pageY ], [ 200, 30, 40 ]);
+					assert.deepEqual(events[5].changedTouches.map((touch: any) => [ touch.clientX, touch.pageY ]), [
+						[ 200, 40 ],
+						[ 200, 80 ]
+					]);
+				});
+			},
+
+			'unsupported touch actions'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+				fake.route('post', 'session/abc/actions', jsonWireError(9, 'Unsupported pointer type'));
+
+				return session.pinch(new Element('map', session)).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/actions', 'post session/abc/execute/sync' ]);
+					assert.include(fake.requests[1].body.script, 'touchstart');
+					assert.isTrue(session.capabilities.brokenTouchActions);
+
+					fake.reset();
+					fake.route('post', /^session\/abc\/execute/, jsonWireSuccess());
+					return session.pinch(new Element('map', session));
+				}).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute/sync' ],
+						'Unsupported touch actions should be remembered');
+				});
+			}
+		},
+
+		'window management': {
+			'#openNewWindow'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+				fake.route('post', 'session/abc/window/new', w3cSuccess({ handle: 'tab2', type: 'tab' }));
+
+				return session.openNewWindow().then(function (handle) {
+					assert.strictEqual(handle, 'tab2');
+					assert.deepEqual(fake.requests[0].body, { type: 'tab' });
+				});
+			},
+
+			'#openNewWindow with window.open'() {
+				const session = new Session('abc', server, {});
+				let handles = [ 'main' ];
+				fake.route('post', 'session/abc/window/new', jsonWireError(9, 'Unknown command', 404));
+				fake.route('get', 'session/abc/window_handles', function () {
+					return jsonWireSuccess(handles);
+				});
+				fake.route('post', 'session/abc/execute', function () {
+					handles = [ 'main', 'popup' ];
+					return jsonWireSuccess(null);
+				});
+
+				return session.openNewWindow('window').then(function (handle) {
+					assert.strictEqual(handle, 'popup');
+					assert.isTrue(session.capabilities.brokenNewWindow);
+					assert.deepEqual(fake.requests[2].body.args, [ 'window' ]);
+
+					fake.route('post', 'session/abc/execute', jsonWireSuccess(null));
+					return session.openNewWindow();
+				}).then(function () {
+					throw new Error('Opening a window should fail if no new window handle appears');
+				}, function (error: Error) {
+					assert.include(error.message, 'could not be opened');
+				});
+			},
+
+			'#getWindowRect'() {
+				const session = new Session('abc', server, {});
+				fake.route('get', 'session/abc/window/rect', jsonWireError(9, 'Unknown command', 404));
+				fake.route('get', 'session/abc/window/current/position', jsonWireSuccess({ x: 10, y: 20, extra: true }));
+				fake.route('get', 'session/abc/window/current/size', jsonWireSuccess({ width: 800, height: 600 }));
+
+				return session.getWindowRect().then(function (rect) {
+					assert.deepEqual(rect, { x: 10, y: 20, width: 800, height: 600 });
+					assert.isTrue(session.capabilities.brokenWindowRect);
+
+					fake.reset();
+					fake.route('get', 'session/abc/window/rect', w3cSuccess({ x: 1, y: 2, width: 3, height: 4 }));
+					session.capabilities.brokenWindowRect = false;
+					return session.getWindowRect();
+				}).then(function (rect) {
+					assert.deepEqual(rect, { x: 1, y: 2, width: 3, height: 4 });
+				});
+			},
+
+			'#setWindowRect'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+				fake.route('post', 'session/abc/window/rect', w3cSuccess({ x: 0, y: 0, width: 500, height: 400 }));
+
+				return session.setWindowRect({ width: 500, height: 400 }).then(function () {
+					assert.deepEqual(fake.requests[0].body, { x: null, y: null, width: 500, height: 400 });
+				});
+			},
+
+			'#setWindowRect separately'() {
+				const session = new Session('abc', server, { brokenWindowRect: true });
+				fake.route('get', 'session/abc/window/current/size', jsonWireSuccess({ width: 800, height: 600 }));
+				fake.route('post', /^session\/abc\/window\/current\/(size|position)$/, jsonWireSuccess(null));
+
+				return session.setWindowRect({ x: 10, y: 20, width: 500 }).then(function () {
+					assert.deepEqual(getRequests(), [
+						'post session/abc/window/current/position',
+						'get session/abc/window/current/size',
+						'post session/abc/window/current/size'
+					]);
+					assert.deepEqual(fake.requests[0].body, { x: 10, y: 20 });
+					assert.deepEqual(fake.requests[2].body, { width: 500, height: 600 });
+				});
+			},
+
+			'#fullscreenWindow'() {
+				const session = new Session('abc', server, {});
+				fake.route('post', 'session/abc/window/fullscreen', jsonWireError(9, 'Unknown command', 404));
+				fake.route('post', 'session/abc/window/current/maximize', jsonWireSuccess(null));
+
+				return session.fullscreenWindow().then(function () {
+					assert.deepEqual(getRequests(), [
+						'post session/abc/window/fullscreen',
+						'post session/abc/window/current/maximize'
+					]);
+					assert.isTrue(session.capabilities.brokenFullscreenWindow);
+				});
+			},
+
+			'#minimizeWindow jsonwire'() {
+				const session = new Session('abc', server, {});
+
+				return session.minimizeWindow().then(function () {
+					throw new Error('Minimising should fail for sessions speaking the JsonWireProtocol');
+				}, function (error: Error) {
+					assert.strictEqual(error.name, 'UnknownCommand');
+					assert.include(error.message, 'W3C WebDriver');
+					assert.lengthOf(fake.requests, 0);
+				});
+			},
+
+			'other window w3c'() {
+				const session = new Session('abc', server, { isWebDriver: true });
+				fake.route('get', 'session/abc/window', w3cSuccess('main'));
+				fake.route('post', 'session/abc/window', w3cSuccess(null));
+				fake.route('post', 'session/abc/window/rect', w3cSuccess({ x: 0, y: 0, width: 500, height: 400 }));
+
+				return session.setWindowSize('popup', 500, 400).then(function () {
+					assert.deepEqual(getRequests(), [
+						'get session/abc/window',
+						'post session/abc/window',
+						'post session/abc/window/rect',
+						'post session/abc/window'
+					]);
+					assert.deepEqual(fake.requests[1].body, { handle: 'popup' });
+					assert.deepEqual(fake.requests[2].body, { width: 500, height: 400 });
+					assert.deepEqual(fake.requests[3].body, { handle: 'main' });
+
+					fake.reset();
+					fake.route('get', 'session/abc/window', w3cSuccess('main'));
+					fake.route('post', 'session/abc/window', w3cSuccess(null));
+					fake.route('post', 'session/abc/window/rect', w3cError('no such window', 'Window not found', 404));
+					return session.setWindowPosition('popup', 10, 20);
+				}).then(function () {
+					throw new Error('Moving a window that cannot be moved should fail');
+				}, function (error: Error) {
+					assert.include(error.message, 'Window not found');
+					assert.deepEqual(fake.requests[3].body, { handle: 'main' },
+						'The original window should be focused again after a failure');
+				});
+			}
+		},
+
+		'#quit 204 response'() {
+			const session = new Session('abc', server, {});
+			fake.expect('delete', 'session/abc', noContent());
+
+			return session.quit().then(function () {
+				assert.lengthOf(fake.pendingRoutes, 0);
+			});
+		},
+
+		'lifecycle': {
+			'#quit'() {
+				const session = new Session('abc', server, {});
+				const states: string[] = [];
+				session.onStateChange(function (event) {
+					assert.strictEqual(event.target, session);
+					states.push(event.previousState + ' -> ' + event.state);
+				});
+				fake.route('delete', 'session/abc', jsonWireSuccess());
+
+				assert.strictEqual(session.state, 'active');
+				const quit = session.quit();
+				assert.strictEqual(session.state, 'quitting');
+				assert.strictEqual(session.quit(), quit, 'Quitting again should return the same Task');
+
+				return quit.then(function () {
+					assert.strictEqual(session.state, 'quit');
+					assert.deepEqual(states, [ 'active -> quitting', 'quitting -> quit' ]);
+					assert.lengthOf(fake.requests, 1);
+					return session.quit();
+				}).then(function () {
+					assert.lengthOf(fake.requests, 1, 'A quit session should not be quit again');
+				});
+			},
+
+			'commands after quit'() {
+				const session = new Session('abc', server, {});
+				fake.route('delete', 'session/abc', jsonWireSuccess());
+
+				return session.quit().then(function () {
+					return session.getCurrentUrl();
+				}).then(function () {
+					throw new Error('Commands should fail once the session has quit');
+				}, function (error: Error) {
+					assert.instanceOf(error, SessionClosedError);
+					assert.instanceOf(error, NoSuchDriverError);
+					assert.include(error.message, 'Session abc has quit');
+					assert.lengthOf(fake.requests, 1, 'The command should not be sent to the server');
+				});
+			},
+
+			'failed quit'() {
+				const session = new Session('abc', server, {});
+				fake.route('delete', 'session/abc', jsonWireError(13, 'Oops'));
+
+				return session.quit().then(function () {
+					throw new Error('Quit should have failed');
+				}, function (error: Error) {
+					assert.include(error.message, 'Oops');
+					assert.strictEqual(session.state, 'active', 'A session that could not be quit should still be usable');
+
+					fake.route('delete', 'session/abc', jsonWireError(6, 'No such session', 404));
+					return session.quit();
+				}).then(function () {
+					assert.strictEqual(session.state, 'quit', 'A session that no longer exists should be considered quit');
+					return session.quit();
+				}).then(function () {
+					assert.lengthOf(fake.requests, 2, 'A session that no longer exists should not be quit again');
+				});
+			},
+
+			'state change handle'() {
+				const session = new Session('abc', server, {});
+				const states: string[] = [];
+				const handle = session.onStateChange(event => states.push(event.state));
+
+				session.setState('creating');
+				handle.destroy();
+				session.setState('active');
+
+				assert.deepEqual(states, [ 'creating' ]);
+			}
+		},
+
+		'pipelining': {
+			beforeEach() {
+				running = 0;
+				maxRunning = 0;
+			},
+
+			'serial by default'() {
+				const session = new Session('abc', server, { supportsConcurrentRequests: true });
+				return runConcurrentRequests(session, 3).then(function () {
+					assert.strictEqual(maxRunning, 1);
+				});
+			},
+
+			'parallel'() {
+				const session = new Session('abc', server, { supportsConcurrentRequests: true });
+				session.pipelining = 'parallel';
+				return runConcurrentRequests(session, 3).then(function () {
+					assert.strictEqual(maxRunning, 3);
+				});
+			},
+
+			'limited'() {
+				const session = new Session('abc', server, { supportsConcurrentRequests: true });
+				session.pipelining = 2;
+				return runConcurrentRequests(session, 4).then(function () {
+					assert.strictEqual(maxRunning, 2);
+				});
+			},
+
+			'server policy'() {
+				const session = new Session('abc', server, { supportsConcurrentRequests: true });
+				server.pipelining = 'parallel';
+				return runConcurrentRequests(session, 3).then(function () {
+					assert.strictEqual(maxRunning, 3);
+				}).finally(function () {
+					server.pipelining = 'serial';
+				});
+			},
+
+			'unsupported'() {
+				const session = new Session('abc', server, {});
+				session.pipelining = 'parallel';
+				return runConcurrentRequests(session, 3).then(function () {
+					assert.strictEqual(maxRunning, 1,
+						'Requests should not be sent in parallel to a server that does not support it');
+				});
+			}
+		},
+
+		'queue': {
+			beforeEach() {
+				fake.route('post', 'session/abc/execute', { ...jsonWireSuccess(null), delay: 20 });
+				fake.route('get', 'session/abc/title', jsonWireSuccess('Title'));
+				fake.route('delete', 'session/abc', jsonWireSuccess());
+			},
+
+			'introspection'() {
+				const session = new Session('abc', server, {});
+				const requests = [ 1, 2, 3 ].map(() => session.execute('return 1;'));
+
+				assert.strictEqual(session.pendingRequestCount, 2);
+				assert.deepEqual(session.pendingRequests.map(request => request.method + ' ' + request.path), [
+					'post execute',
+					'post execute'
+				]);
+				assert.lengthOf(session.activeRequests, 1);
+				assert.strictEqual(session.activeRequests[0].priority, 'normal');
+				assert.isAtLeast(session.activeRequests[0].startedAt, session.activeRequests[0].queuedAt);
+
+				return Task.all(requests).then(function () {
+					assert.strictEqual(session.pendingRequestCount, 0);
+					assert.lengthOf(session.activeRequests, 0);
+				});
+			},
+
+			'#cancelPendingRequests'() {
+				const session = new Session('abc', server, {});
+				const first = session.execute('return 1;');
+				const cancelled = [ 2, 3 ].map(() => session.execute('return 1;').then(function () {
+					throw new Error('Cancelled requests should not resolve');
+				}, function (error: Error) {
+					assert.strictEqual(error.name, 'CancelError');
+				}));
+
+				assert.strictEqual(session.cancelPendingRequests(), 2);
+				assert.strictEqual(session.pendingRequestCount, 0);
+
+				return Task.all<any>([ first, ...cancelled ]).then(function () {
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute' ]);
+				});
+			},
+
+			'#prioritize'() {
+				const session = new Session('abc', server, {});
+				const requests: Task<any>[] = [ 1, 2 ].map(() => session.execute('return 1;'));
+				requests.push(session.prioritize(() => session.getPageTitle()).then(function (title) {
+					assert.strictEqual(title, 'Title');
+				}));
+
+				assert.deepEqual(session.pendingRequests.map(request => request.priority), [ 'high', 'normal' ]);
+
+				return Task.all(requests).then(function () {
+					assert.deepEqual(getRequests(), [
+						'post session/abc/execute',
+						'get session/abc/title',
+						'post session/abc/execute'
+					], 'High-priority requests should be sent ahead of waiting requests');
+				});
+			},
+
+			'#prioritize unrelated requests'() {
+				const session = new Session('abc', server, {});
+				const requests: Task<any>[] = [ session.execute('return 1;') ];
+				requests.push(session.prioritize(function () {
+					return session.getPageTitle().then(function () {
+						return session.getPageTitle();
+					});
+				}));
+				requests.push(session.execute('return 2;'));
+
+				assert.deepEqual(session.pendingRequests.map(request => request.priority), [ 'high', 'normal' ],
+					'Requests made by other code while a prioritized function is pending should not be prioritized');
+
+				return Task.all(requests);
+			},
+
+			'#quit'() {
+				const session = new Session('abc', server, {});
+				const requests = [ 1, 2 ].map(() => session.execute('return 1;').catch(function (error: Error) {
+					return error;
+				}));
+
+				return session.quit().then(function () {
+					return Task.all(requests);
+				}).then(function (results) {
+					assert.isNull(results[0]);
+					assert.instanceOf(results[1], SessionClosedError,
+						'Requests that were waiting when the session quit should fail');
+					assert.deepEqual(getRequests(), [ 'post session/abc/execute', 'delete session/abc' ]);
+				});
+			}
+		},
+
+		'heartbeat': {
+			'idle session'() {
+				const session = new Session('abc', server, {});
+				fake.route('get', 'session/abc/url', jsonWireSuccess('about:blank'));
+
+				const handle = session.startHeartbeat(20);
+				return sleep(70).then(function () {
+					assert.isAbove(fake.requests.length, 1, 'Heartbeats should be sent while the session is idle');
+					assert.deepEqual(getRequests().filter(request => request !== 'get session/abc/url'), []);
+
+					handle.destroy();
+					const count = fake.requests.length;
+					return sleep(50).then(function () {
+						assert.lengthOf(fake.requests, count, 'Heartbeats should stop once the handle is destroyed');
+					});
+				});
+			},
+
+			'busy session'() {
+				const session = new Session('abc', server, {});
+				fake.route('get', 'session/abc/url', jsonWireSuccess('about:blank'));
+				fake.route('get', 'session/abc/title', { ...jsonWireSuccess('Title'), delay: 60 });
+
+				const handle = session.startHeartbeat(20);
+				return session.getPageTitle().then(function () {
+					assert.deepEqual(getRequests(), [ 'get session/abc/title' ],
+						'A heartbeat should not be sent while a command is running');
+					return sleep(10);
+				}).then(function () {
+					assert.lengthOf(fake.requests, 1, 'A heartbeat should wait for the session to be idle again');
+				}).finally(function () {
+					handle.destroy();
+				});
+			},
+
+			'stops on quit'() {
+				const session = new Session('abc', server, {});
+				fake.route('get', 'session/abc/url', jsonWireSuccess('about:blank'));
+				fake.route('delete', 'session/abc', jsonWireSuccess());
+
+				session.startHeartbeat(20);
+				return session.quit().then(function () {
+					return sleep(50);
+				}).then(function () {
+					assert.deepEqual(getRequests(), [ 'delete session/abc' ]);
+				});
+			},
+
+			'resumes after failed quit'() {
+				const session = new Session('abc', server, {});
+				fake.route('get', 'session/abc/url', jsonWireSuccess('about:blank'));
+				fake.route('delete', 'session/abc', jsonWireError(13, 'Oops'));
+
+				const handle = session.startHeartbeat(20);
+				return session.quit().then(function () {
+					throw new Error('Quit should have failed');
+				}, function () {
+					return sleep(50);
+				}).then(function () {
+					assert.include(getRequests(), 'get session/abc/url',
+						'Heartbeats should resume if the session could not be quit');
+				}).finally(function () {
+					handle.destroy();
+				});
+			}
+		}
+	};
+});
@@ -0,0 +1,60 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import {
+	createError,
+	ElementNotInteractableError,
+	getErrorClass,
+	InvalidArgumentError,
+	JavaScriptError,
+	NoSuchElementError,
+	StaleElementReferenceError,
+	TimeoutError,
+	UnknownCommandError,
+	UnknownError,
+	WebDriverError
+} from 'src/errors';
+
+registerSuite({
+	name: 'leadfoot/errors',
+
+	'error classes'() {
+		const error = new NoSuchElementError();
+		assert.instanceOf(error, NoSuchElementError);
+		assert.instanceOf(error, WebDriverError);
+		assert.instanceOf(error, Error);
+		assert.strictEqual(error.name, 'NoSuchElement', 'Name should match the JsonWireProtocol status name');
+		assert.strictEqual(error.status, 7);
+		assert.include(error.message, 'could not be located');
+		assert.match(error.stack, /^NoSuchElement: /);
+		assert.strictEqual(String(error), 'NoSuchElement: ' + error.message);
+
+		assert.strictEqual(new TimeoutError('Too slow').message, 'Too slow');
+	},
+
+	'.getErrorClass'() {
+		assert.strictEqual(getErrorClass(10), StaleElementReferenceError);
+		assert.strictEqual(getErrorClass('10'), StaleElementReferenceError);
+		assert.strictEqual(getErrorClass('stale element reference'), StaleElementReferenceError);
+		assert.strictEqual(getErrorClass('unknown command'), UnknownCommandError);
+		assert.strictEqual(getErrorClass('javascript error'), JavaScriptError);
+		assert.strictEqual(getErrorClass('invalid argument'), InvalidArgumentError);
+		assert.strictEqual(getErrorClass(99), UnknownError);
+		assert.strictEqual(getErrorClass('made up error'), UnknownError);
+	},
+
+	'.createError'() {
+		const error = createError('no such element', 'Missing');
+		assert.instanceOf(error, NoSuchElementError);
+		assert.strictEqual(error.message, 'Missing');
+		assert.strictEqual(createError(21).name, 'Timeout');
+	},
+
+	'W3C-only errors'() {
+		const error = createError('element not interactable');
+		assert.instanceOf(error, ElementNotInteractableError);
+		assert.strictEqual(error.name, 'ElementNotInteractable');
+		assert.isUndefined(error.status, 'Errors without a JsonWireProtocol equivalent should have no status');
+		assert.include(error.message, 'not pointer- or keyboard interactable');
+		assert.strictEqual(getErrorClass(60), UnknownError, 'Status codes should not be invented for W3C-only errors');
+	}
+});
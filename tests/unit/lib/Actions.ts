@@ -0,0 +1,133 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Actions from 'src/lib/Actions';
+import Element from 'src/Element';
+import keys from 'src/keys';
+
+registerSuite({
+	name: 'lib/leadfoot/Actions',
+
+	'sequential actions'() {
+		const actions = new Actions()
+			.pointerMove({ x: 10.4, y: 20 })
+			.keyDown(keys.SHIFT)
+			.pointerDown()
+			.pointerUp()
+			.keyUp(keys.SHIFT);
+
+		assert.deepEqual(actions.toJSON(), [
+			{
+				type: 'pointer',
+				id: 'mouse',
+				parameters: { pointerType: 'mouse' },
+				actions: [
+					{ type: 'pointerMove', duration: 0, origin: 'viewport', x: 10, y: 20 },
+					{ type: 'pause', duration: 0 },
+					{ type: 'pointerDown', button: 0 },
+					{ type: 'pointerUp', button: 0 },
+					{ type: 'pause', duration: 0 }
+				]
+			},
+			{
+				type: 'key',
+				id: 'keyboard',
+				actions: [
+					{ type: 'pause', duration: 0 },
+					{ type: 'keyDown', value: keys.SHIFT },
+					{ type: 'pause', duration: 0 },
+					{ type: 'pause', duration: 0 },
+					{ type: 'keyUp', value: keys.SHIFT }
+				]
+			}
+		]);
+	},
+
+	'#tick'() {
+		const actions = new Actions()
+			.pointer('finger1', 'touch')
+			.pointer('finger2', 'touch')
+			.tick(function (actions) {
+				actions.pointerDown({ pressure: 0.5 }, 'finger1').pointerDown(0, 'finger2');
+			})
+			.pause(99.6)
+			.tick(function (actions) {
+				actions.pointerUp(0, 'finger1').pointerUp(0, 'finger2');
+			});
+
+		assert.deepEqual(actions.toJSON(), [
+			{
+				type: 'pointer',
+				id: 'finger1',
+				parameters: { pointerType: 'touch' },
+				actions: [
+					{ type: 'pointerDown', button: 0, pressure: 0.5 },
+					{ type: 'pause', duration: 100 },
+					{ type: 'pointerUp', button: 0 }
+				]
+			},
+			{
+				type: 'pointer',
+				id: 'finger2',
+				parameters: { pointerType: 'touch' },
+				actions: [
+					{ type: 'pointerDown', button: 0 },
+					{ type: 'pause', duration: 100 },
+					{ type: 'pointerUp', button: 0 }
+				]
+			}
+		]);
+
+		assert.throws(function () {
+			new Actions().tick(function (actions) {
+				actions.pointerDown().pointerUp();
+			});
+		}, /already has an action in this tick/);
+	},
+
+	'#type'() {
+		assert.deepEqual(new Actions().type('ab').toJSON()[0].actions, [
+			{ type: 'keyDown', value: 'a' },
+			{ type: 'keyUp', value: 'a' },
+			{ type: 'keyDown', value: 'b' },
+			{ type: 'keyUp', value: 'b' }
+		]);
+	},
+
+	'#scroll'() {
+		const element = new Element('e1');
+		const sequence = new Actions().scroll({ origin: element, deltaY: 200, duration: 50.2 }).toJSON()[0];
+
+		assert.strictEqual(sequence.type, 'wheel');
+		assert.strictEqual(sequence.id, 'wheel');
+		assert.deepEqual(JSON.parse(JSON.stringify(sequence.actions[0])), {
+			type: 'scroll',
+			duration: 50,
+			origin: { ELEMENT: 'e1', 'element-6066-11e4-a52e-4f735466cecf': 'e1' },
+			x: 0,
+			y: 0,
+			deltaX: 0,
+			deltaY: 200
+		});
+	},
+
+	'input source types'() {
+		assert.throws(function () {
+			new Actions().pointerMove().keyDown('a', 'mouse');
+		}, /is a pointer input source, not a key input source/);
+
+		assert.throws(function () {
+			new Actions().pointer('pen', 'pen').pointer('pen', 'touch');
+		}, /is a pen, not a touch/);
+
+		const sequences = new Actions().pause(10, 'pen').pointer('pen', 'pen').pointerDown(0, 'pen').toJSON();
+		assert.deepEqual(sequences[0], {
+			type: 'pointer',
+			id: 'pen',
+			parameters: { pointerType: 'pen' },
+			actions: [
+				{ type: 'pause', duration: 10 },
+				{ type: 'pointerDown', button: 0 }
+			]
+		}, 'An input source that has only paused should become the type of its later actions');
+	}
+});
@@ -0,0 +1,108 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import CapabilityCache from 'src/lib/CapabilityCache';
+import FakeServer, { jsonWireSuccess } from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let file: string;
+
+	const chrome = {
+		browserName: 'chrome',
+		version: '60.0',
+		platform: 'LINUX',
+		chrome: { chromedriverVersion: '2.31' }
+	};
+
+	return {
+		name: 'lib/leadfoot/CapabilityCache',
+
+		setup() {
+			file = path.join(os.tmpdir(), 'leadfoot-capabilities-' + process.pid + '.json');
+		},
+
+		afterEach() {
+			if (fs.existsSync(file)) {
+				fs.unlinkSync(file);
+			}
+		},
+
+		'#getKey'() {
+			const cache = new CapabilityCache();
+			assert.strictEqual(cache.getKey(chrome), 'chrome|60.0|linux|2.31');
+			assert.strictEqual(cache.getKey({ browserName: 'firefox', browserVersion: '55', platformName: 'mac',
+				'moz:geckodriverVersion': '0.18.0' } as any), 'firefox|55|mac|0.18.0');
+			assert.notEqual(cache.getKey(chrome), cache.getKey({ ...chrome, version: '61.0' }));
+		},
+
+		'persistence'() {
+			const cache = new CapabilityCache(file);
+			assert.isUndefined(cache.get(chrome));
+
+			cache.set(chrome, { brokenClick: true });
+			assert.deepEqual(cache.get(chrome), { brokenClick: true });
+
+			const reloaded = new CapabilityCache(file);
+			assert.deepEqual(reloaded.get(chrome), { brokenClick: true }, 'Entries should be loaded from disk');
+
+			reloaded.invalidate(chrome);
+			assert.isUndefined(reloaded.get(chrome));
+			assert.isUndefined(new CapabilityCache(file).get(chrome), 'Invalidation should be written to disk');
+		},
+
+		'corrupt file'() {
+			fs.writeFileSync(file, '{"chrome|60.0|linux|2.31": { "capabil');
+
+			let cache: CapabilityCache;
+			assert.doesNotThrow(function () {
+				cache = new CapabilityCache(file);
+			}, 'A corrupt cache file should not prevent the cache from being created');
+			assert.isUndefined(cache.get(chrome));
+
+			cache.set(chrome, { brokenClick: true });
+			assert.deepEqual(new CapabilityCache(file).get(chrome), { brokenClick: true },
+				'A corrupt cache file should be replaced when the cache is saved');
+			assert.notInclude(fs.readdirSync(path.dirname(file)), path.basename(file) + '.' + process.pid + '.tmp',
+				'The temporary file should be renamed to the cache file');
+		},
+
+		'#invalidate all'() {
+			const cache = new CapabilityCache();
+			cache.set(chrome, { brokenClick: true });
+			cache.set({ browserName: 'firefox' }, { brokenClick: false });
+			cache.invalidate();
+			assert.isUndefined(cache.get(chrome));
+			assert.isUndefined(cache.get({ browserName: 'firefox' }));
+		},
+
+		'maxAge'() {
+			const cache = new CapabilityCache(null, -1);
+			cache.set(chrome, { brokenClick: true });
+			assert.isUndefined(cache.get(chrome), 'Expired entries should be ignored');
+		},
+
+		'Server integration'() {
+			const fake = new FakeServer();
+			fake.route('post', 'session', jsonWireSuccess(chrome, 'abc'));
+
+			return fake.start().then(function (url) {
+				const server = new Server(url);
+				server.capabilityCache = new CapabilityCache();
+				server.capabilityCache.set(chrome, { brokenClick: true, supportsKeysCommand: false });
+
+				return server.createSession({ browserName: 'chrome' });
+			}).then(function (session: Session) {
+				assert.lengthOf(fake.requests, 1, 'Capabilities should not be detected when they are cached');
+				assert.isTrue(session.capabilities.brokenClick);
+				assert.isFalse(session.capabilities.supportsKeysCommand);
+				assert.strictEqual(session.capabilities.browserName, 'chrome');
+			}).finally(function () {
+				return fake.stop();
+			});
+		}
+	};
+});
@@ -0,0 +1,136 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import Cassette from 'src/lib/Cassette';
+import FakeServer, { dropConnection, iosDriverError, jsonWireSuccess, redirect } from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let fake: FakeServer;
+	let file: string;
+
+	return {
+		name: 'lib/leadfoot/Cassette',
+
+		setup() {
+			fake = new FakeServer();
+			file = path.join(os.tmpdir(), 'leadfoot-cassette-' + process.pid + '.json');
+			return fake.start();
+		},
+
+		teardown() {
+			if (fs.existsSync(file)) {
+				fs.unlinkSync(file);
+			}
+			return fake.stop();
+		},
+
+		'record and replay'() {
+			fake.route('post', 'session', redirect('session/abc'));
+			fake.route('get', 'session/abc', jsonWireSuccess({ browserName: 'chrome' }, 'abc'));
+			fake.route('get', 'session/abc/title', iosDriverError('cannot find command: title'));
+
+			const recorder = new Server(fake.url);
+			recorder.cassette = new Cassette('record', file);
+
+			function run(server: Server) {
+				return server.createSession({ browserName: 'chrome', fixSessionCapabilities: false })
+					.then(function (session: Session) {
+						assert.strictEqual(session.sessionId, 'abc');
+						return session.getPageTitle().then(function () {
+							throw new Error('Request should have failed');
+						}, function (error: Error) {
+							assert.strictEqual(error.name, 'UnknownCommand');
+						});
+					});
+			}
+
+			return run(recorder).then(function () {
+				const exchanges = new Cassette('replay', file).exchanges;
+				assert.deepEqual(exchanges.map((exchange: any) => exchange.method + ' ' + exchange.path), [
+					'POST session',
+					'GET session/abc',
+					'GET session/abc/title'
+				]);
+				assert.strictEqual(exchanges[0].status, 303);
+				assert.strictEqual(exchanges[2].body, JSON.stringify({ status: 13,
+					message: 'cannot find command: title' }));
+
+				const requestCount = fake.requests.length;
+				const player = new Server('http://replay.invalid/wd/hub/');
+				player.cassette = new Cassette('replay', file);
+
+				return run(player).then(function () {
+					assert.lengthOf(fake.requests, requestCount, 'Replayed requests should not reach the server');
+				});
+			});
+		},
+
+		'record and replay transport failures'() {
+			fake.route('get', 'status', dropConnection());
+
+			const recorder = new Server(fake.url);
+			recorder.cassette = new Cassette('record', file);
+
+			function run(server: Server) {
+				return server.getStatus().then(function () {
+					throw new Error('Request should have failed');
+				}, function (error: any) {
+					return error;
+				});
+			}
+
+			return run(recorder).then(function (recordedError) {
+				const exchanges = new Cassette('replay', file).exchanges;
+				assert.lengthOf(exchanges, 1);
+				assert.isNull(exchanges[0].status);
+				assert.strictEqual(exchanges[0].error.code, 'ECONNRESET');
+
+				const player = new Server('http://replay.invalid/wd/hub/');
+				player.cassette = new Cassette('replay', file);
+
+				return run(player).then(function (replayedError) {
+					assert.strictEqual(replayedError.name, recordedError.name);
+					assert.strictEqual(replayedError.code, recordedError.code,
+						'Replayed failures should keep their error code so they are retried the same way');
+					assert.include(replayedError.message, exchanges[0].error.message);
+				});
+			});
+		},
+
+		'append exchanges'() {
+			fake.route('get', 'status', jsonWireSuccess({ ready: true }));
+
+			const recorder = new Server(fake.url);
+			recorder.cassette = new Cassette('record', file);
+
+			return recorder.getStatus().then(function () {
+				return recorder.getStatus();
+			}).then(function () {
+				const lines = fs.readFileSync(file, 'utf8').split('\n');
+				assert.lengthOf(lines, 3, 'Each exchange should be written on its own line');
+				assert.strictEqual(lines[2], '');
+
+				// A crash while an exchange is being written leaves a partial last line
+				fs.writeFileSync(file, lines[0] + '\n' + lines[1].slice(0, 20));
+				assert.lengthOf(new Cassette('replay', file).exchanges, 1,
+					'A partially written exchange should be ignored');
+			});
+		},
+
+		'replay unknown request'() {
+			const server = new Server('http://replay.invalid/wd/hub/');
+			server.cassette = new Cassette('replay');
+
+			return server.getStatus().then(function () {
+				throw new Error('Request should have failed');
+			}, function (error: Error) {
+				assert.strictEqual(error.name, 'CassetteError');
+				assert.include(error.message, 'GET status');
+			});
+		}
+	};
+});
@@ -0,0 +1,235 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Server from 'src/Server';
+import Session from 'src/Session';
+import SessionPool from 'src/lib/SessionPool';
+import { sleep } from 'src/lib/util';
+import FakeServer, { jsonWireError, jsonWireSuccess } from 'src/helpers/FakeServer';
+
+registerSuite(function () {
+	let fake: FakeServer;
+	let server: Server;
+	let pool: SessionPool;
+	let sessionCount: number;
+
+	function requestsFor(method: string, path: string) {
+		return fake.requests.filter(request => request.method === method && request.path === path);
+	}
+
+	return {
+		name: 'lib/leadfoot/SessionPool',
+
+		setup() {
+			fake = new FakeServer();
+			return fake.start().then(function (url) {
+				server = new Server(url);
+				server.fixSessionCapabilities = false;
+			});
+		},
+
+		beforeEach() {
+			fake.reset();
+			sessionCount = 0;
+
+			fake.route('post', 'session', function (request) {
+				return jsonWireSuccess(request.body.desiredCapabilities, 'session' + (++sessionCount));
+			});
+			fake.route('get', 'session/*/window_handle', jsonWireSuccess('main'));
+			fake.route('get', 'session/*/window_handles', jsonWireSuccess([ 'main', 'popup' ]));
+			fake.route('get', 'session/*/url', jsonWireSuccess('about:blank'));
+			fake.route('post', /^session\/[^/]+\//, jsonWireSuccess(null));
+			fake.route('delete', /^session\/[^/]+\//, jsonWireSuccess(null));
+			fake.route('delete', 'session/*', jsonWireSuccess(null));
+
+			pool = new SessionPool(server, { maxSize: 2 });
+		},
+
+		afterEach() {
+			return pool.destroy();
+		},
+
+		teardown() {
+			return fake.stop();
+		},
+
+		'reuse'() {
+			let firstSession: Session;
+
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				firstSession = session;
+				return pool.release(session);
+			}).then(function () {
+				assert.strictEqual(pool.idleCount, 1);
+				assert.lengthOf(requestsFor('delete', 'session/session1/window'), 1, 'Extra windows should be closed');
+				assert.lengthOf(requestsFor('post', 'session/session1/execute'), 1, 'Storage should be cleared');
+				assert.lengthOf(requestsFor('delete', 'session/session1/cookie'), 1, 'Cookies should be cleared');
+				assert.deepEqual(requestsFor('post', 'session/session1/url').map(request => request.body.url),
+					[ 'about:blank' ]);
+
+				return pool.acquire({ browserName: 'chrome' });
+			}).then(function (session) {
+				assert.strictEqual(session, firstSession, 'An idle session should be reused');
+				assert.strictEqual(pool.size, 1);
+				return pool.release(session);
+			});
+		},
+
+		'different capabilities'() {
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.release(session);
+			}).then(function () {
+				return pool.acquire({ browserName: 'firefox' });
+			}).then(function (session) {
+				assert.strictEqual(session.sessionId, 'session2');
+				assert.strictEqual(pool.size, 2);
+				return pool.release(session);
+			});
+		},
+
+		'full pool evicts idle sessions'() {
+			let quitting = false;
+			let createdWhileQuitting = false;
+
+			fake.route('delete', 'session/session1', function () {
+				quitting = true;
+				return sleep(20).then(function () {
+					quitting = false;
+					return jsonWireSuccess(null);
+				});
+			});
+			fake.route('post', 'session', function (request) {
+				createdWhileQuitting = createdWhileQuitting || quitting;
+				return jsonWireSuccess(request.body.desiredCapabilities, 'session' + (++sessionCount));
+			});
+
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.release(session);
+			}).then(function () {
+				return pool.acquire({ browserName: 'firefox' });
+			}).then(function () {
+				return pool.acquire({ browserName: 'safari' });
+			}).then(function (session) {
+				assert.strictEqual(session.sessionId, 'session3');
+				assert.strictEqual(pool.size, 2);
+				assert.lengthOf(requestsFor('delete', 'session/session1'), 1, 'The idle session should be quit');
+				assert.isFalse(createdWhileQuitting, 'A new session should only be created once the idle session has quit');
+			});
+		},
+
+		'full pool waits for release'() {
+			let sessions: Session[];
+			let waited: Session;
+
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.acquire({ browserName: 'chrome' }).then(function (otherSession) {
+					sessions = [ session, otherSession ];
+				});
+			}).then(function () {
+				const waiting = pool.acquire({ browserName: 'chrome' }).then(function (session) {
+					waited = session;
+				});
+
+				return sleep(20).then(function () {
+					assert.isUndefined(waited, 'acquire should wait while all sessions are leased');
+					return pool.release(sessions[1]);
+				}).then(function () {
+					return waiting;
+				});
+			}).then(function () {
+				assert.strictEqual(waited, sessions[1]);
+				assert.strictEqual(pool.size, 2);
+			});
+		},
+
+		'idle timeout'() {
+			pool.idleTimeout = 10;
+
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.release(session);
+			}).then(function () {
+				return sleep(50);
+			}).then(function () {
+				assert.strictEqual(pool.idleCount, 0);
+				assert.strictEqual(pool.size, 0);
+				assert.lengthOf(requestsFor('delete', 'session/session1'), 1);
+			});
+		},
+
+		'unhealthy session'() {
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.release(session);
+			}).then(function () {
+				fake.route('get', 'session/session1/url', jsonWireError(6, 'No such session', 404));
+				return pool.acquire({ browserName: 'chrome' });
+			}).then(function (session) {
+				assert.strictEqual(session.sessionId, 'session2', 'An unhealthy session should be replaced');
+				assert.strictEqual(pool.size, 1);
+			});
+		},
+
+		'failed reset'() {
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				fake.route('delete', 'session/session1/cookie', jsonWireError(13, 'Oops'));
+				return pool.release(session);
+			}).then(function () {
+				assert.strictEqual(pool.size, 0, 'A session that cannot be reset should be quit');
+				assert.lengthOf(requestsFor('delete', 'session/session1'), 1);
+			});
+		},
+
+		'failed reset with a waiting caller'() {
+			let quitting = false;
+			let createdWhileQuitting = false;
+
+			pool.maxSize = 1;
+			fake.route('delete', 'session/session1/cookie', jsonWireError(13, 'Oops'));
+			fake.route('delete', 'session/session1', function () {
+				quitting = true;
+				return sleep(20).then(function () {
+					quitting = false;
+					return jsonWireSuccess(null);
+				});
+			});
+			fake.route('post', 'session', function (request) {
+				createdWhileQuitting = createdWhileQuitting || quitting;
+				return jsonWireSuccess(request.body.desiredCapabilities, 'session' + (++sessionCount));
+			});
+
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				const waiting = pool.acquire({ browserName: 'chrome' });
+				return pool.release(session).then(function () {
+					return waiting;
+				});
+			}).then(function (session) {
+				assert.strictEqual(session.sessionId, 'session2');
+				assert.strictEqual(pool.size, 1);
+				assert.isFalse(createdWhileQuitting,
+					'A waiting caller should only get a new session once the session that could not be reset has quit');
+			});
+		},
+
+		'release unknown session'() {
+			return pool.release(new Session('abc', server, {})).then(function () {
+				throw new Error('Releasing an unknown session should fail');
+			}, function (error: Error) {
+				assert.include(error.message, 'is not leased from this pool');
+			});
+		},
+
+		'destroy'() {
+			return pool.acquire({ browserName: 'chrome' }).then(function (session) {
+				return pool.destroy().then(function () {
+					return pool.release(session);
+				});
+			}).then(function () {
+				assert.strictEqual(pool.size, 0);
+				assert.lengthOf(requestsFor('delete', 'session/session1'), 1);
+				return pool.acquire({ browserName: 'chrome' }).then(function () {
+					throw new Error('A destroyed pool should not lease sessions');
+				}, function (error: Error) {
+					assert.include(error.message, 'destroyed');
+				});
+			});
+		}
+	};
+});
@@ -0,0 +1,37 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import { CapabilityReport, diffCapabilityReports } from 'src/lib/capabilityReport';
+
+function createReport(capabilities: { [name: string]: any }): CapabilityReport {
+	const report: CapabilityReport = { environment: {}, capabilities: {} };
+	Object.keys(capabilities).forEach(function (name) {
+		report.capabilities[name] = { value: capabilities[name], tested: true, duration: 1 };
+	});
+	return report;
+}
+
+registerSuite({
+	name: 'lib/leadfoot/capabilityReport',
+
+	'.diffCapabilityReports'() {
+		const before = createReport({
+			brokenClick: false,
+			brokenZeroTimeout: true,
+			fixedLogTypes: [ 'browser' ],
+			touchEnabled: false
+		});
+		const after = createReport({
+			brokenClick: false,
+			brokenZeroTimeout: false,
+			fixedLogTypes: [ 'browser' ],
+			supportsKeysCommand: true
+		});
+
+		assert.deepEqual(diffCapabilityReports(before, after), [
+			{ name: 'brokenZeroTimeout', before: true, after: false },
+			{ name: 'supportsKeysCommand', before: undefined, after: true },
+			{ name: 'touchEnabled', before: false, after: undefined }
+		]);
+		assert.deepEqual(diffCapabilityReports(before, before), []);
+	}
+});
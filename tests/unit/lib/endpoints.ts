@@ -0,0 +1,111 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Task from '@dojo/core/async/Task';
+import { getEndpoint } from 'src/lib/endpoints';
+import keys from 'src/keys';
+
+registerSuite({
+	name: 'lib/leadfoot/endpoints',
+
+	'jsonwire passthrough'() {
+		assert.deepEqual(getEndpoint('jsonwire', 'get', 'alert_text'), { method: 'get', path: 'alert_text' });
+		assert.deepEqual(getEndpoint('jsonwire', 'post', 'element/$0/value'), {
+			method: 'post',
+			path: 'element/$0/value'
+		});
+	},
+
+	'w3c unmapped passthrough'() {
+		assert.deepEqual(getEndpoint('w3c', 'get', 'url'), { method: 'get', path: 'url' });
+	},
+
+	'w3c paths'() {
+		const endpoint = getEndpoint('w3c', 'post', 'element/active');
+		assert.strictEqual(endpoint.method, 'get');
+		assert.strictEqual(endpoint.path, 'element/active');
+		assert.strictEqual(getEndpoint('w3c', 'get', 'alert_text').path, 'alert/text');
+		assert.strictEqual(getEndpoint('w3c', 'post', 'execute').path, 'execute/sync');
+	},
+
+	'safe routes'() {
+		assert.isTrue(getEndpoint('jsonwire', 'post', 'timeouts').safe);
+		assert.isTrue(getEndpoint('w3c', 'post', 'window').safe);
+		assert.isTrue(getEndpoint('w3c', 'post', 'element/$0/elements').safe);
+		assert.isUndefined(getEndpoint('w3c', 'post', 'element/$0/click').safe);
+		assert.isUndefined(getEndpoint('jsonwire', 'post', 'execute').safe);
+	},
+
+	'w3c-only routes'() {
+		assert.isTrue(getEndpoint('jsonwire', 'post', 'window/minimize').unsupported);
+		assert.deepEqual(getEndpoint('w3c', 'post', 'window/minimize'), { method: 'post', path: 'window/minimize' });
+	},
+
+	'w3c window switch'() {
+		const endpoint = getEndpoint('w3c', 'post', 'window');
+		assert.deepEqual(endpoint.request({ name: 'foo' }, null, {}), { handle: 'foo' });
+	},
+
+	'w3c timeouts'() {
+		const endpoint = getEndpoint('w3c', 'post', 'timeouts');
+		assert.deepEqual(endpoint.request({ type: 'page load', ms: 100 }, null, {}), { pageLoad: 100 });
+		assert.deepEqual(endpoint.request({ type: 'implicit', ms: 0 }, null, {}), { implicit: 0 });
+	},
+
+	'w3c locators'() {
+		const endpoint = getEndpoint('w3c', 'post', 'element/$0/elements');
+		assert.deepEqual(endpoint.request({ using: 'id', value: 'foo' }, null, {}), {
+			using: 'css selector',
+			value: '#foo'
+		});
+	},
+
+	'w3c rect responses'() {
+		const rect = { x: 1, y: 2, width: 3, height: 4 };
+		assert.deepEqual(getEndpoint('w3c', 'get', 'element/$0/size').response(rect), { width: 3, height: 4 });
+		assert.deepEqual(getEndpoint('w3c', 'get', 'window/$0/position').response(rect), { x: 1, y: 2 });
+	},
+
+	'w3c keys'() {
+		const endpoint = getEndpoint('w3c', 'post', 'keys');
+		const state = {};
+
+		function getActions(value: string[]) {
+			return endpoint.request({ value }, null, state).actions[0].actions;
+		}
+
+		assert.deepEqual(getActions([ keys.SHIFT, 'a' ]), [
+			{ type: 'keyDown', value: keys.SHIFT },
+			{ type: 'keyDown', value: 'a' },
+			{ type: 'keyUp', value: 'a' }
+		]);
+		assert.deepEqual(getActions([ keys.NULL ]), [
+			{ type: 'keyUp', value: keys.SHIFT }
+		], 'Modifier keys should remain pressed until released with NULL');
+	},
+
+	'w3c moveto'() {
+		const endpoint = getEndpoint('w3c', 'post', 'moveto');
+		const session: any = {
+			sessionId: 'session',
+			server: {
+				get(path: string, data: any, pathParts: string[]) {
+					assert.strictEqual(path, 'session/$0/element/$1/rect');
+					assert.deepEqual(pathParts, [ 'session', 'element' ]);
+					return Task.resolve({ value: { x: 0, y: 0, width: 20, height: 10 } });
+				}
+			}
+		};
+
+		assert.deepEqual(endpoint.request({ xoffset: 5, yoffset: 6 }, session, {}).actions[0].actions, [
+			{ type: 'pointerMove', duration: 0, origin: 'pointer', x: 5, y: 6 }
+		]);
+
+		return Task.resolve(endpoint.request({ element: 'element', xoffset: 0, yoffset: 0 }, session, {}))
+			.then(function (data: any) {
+				const action = data.actions[0].actions[0];
+				assert.deepEqual(action.origin, { 'element-6066-11e4-a52e-4f735466cecf': 'element' });
+				assert.strictEqual(action.x, -10, 'Offsets should be converted to be relative to the element centre');
+				assert.strictEqual(action.y, -5);
+			});
+	}
+});
@@ -0,0 +1,70 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import * as png from 'src/lib/png';
+
+// A 3x3 RGB image whose rows use the Sub, Paeth, and Average filters
+const rgbImage = new Buffer('iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAIAAADZSiLoAAAAJklEQVR4nGPkEpEDgkuXXVi+v3u6IECE7WwDMy' +
+	'c727zzLxga/gMAmg0Lk8wR1pAAAAAASUVORK5CYII=', 'base64');
+
+// A 3x2 2-bit palette image with a transparent palette entry whose second row uses the Up filter
+const paletteImage = new Buffer('iVBORw0KGgoAAAANSUhEUgAAAAMAAAACAgMAAADgGo6JAAAADFBMVEX/AAAA/wAAAP/////7AGD2AAAAAnRSTl' +
+	'P/gAgPs2oAAAAMSURBVHicY5BgOgMAARwA54Iw7XgAAAAASUVORK5CYII=', 'base64');
+
+function toPixels(image: png.Image) {
+	const pixels: number[][] = [];
+	for (let i = 0; i < image.data.length; i += 4) {
+		pixels.push(Array.prototype.slice.call(image.data, i, i + 4));
+	}
+	return pixels;
+}
+
+registerSuite({
+	name: 'lib/leadfoot/png',
+
+	'.decode'() {
+		const image = png.decode(rgbImage);
+		assert.strictEqual(image.width, 3);
+		assert.strictEqual(image.height, 3);
+		assert.deepEqual(toPixels(image), [
+			[ 10, 20, 30, 255 ], [ 40, 50, 60, 255 ], [ 250, 5, 128, 255 ],
+			[ 1, 2, 3, 255 ], [ 200, 100, 50, 255 ], [ 0, 255, 0, 255 ],
+			[ 9, 8, 7, 255 ], [ 6, 5, 4, 255 ], [ 3, 2, 1, 255 ]
+		]);
+	},
+
+	'.decode palette'() {
+		const image = png.decode(paletteImage);
+		assert.strictEqual(image.width, 3);
+		assert.strictEqual(image.height, 2);
+		assert.deepEqual(toPixels(image), [
+			[ 255, 0, 0, 255 ], [ 0, 255, 0, 128 ], [ 0, 0, 255, 255 ],
+			[ 255, 255, 255, 255 ], [ 0, 0, 255, 255 ], [ 0, 255, 0, 128 ]
+		]);
+	},
+
+	'.decode invalid'() {
+		assert.throws(function () {
+			png.decode(new Buffer('GIF89a'));
+		}, /not a PNG/);
+	},
+
+	'.encode'() {
+		const image = png.decode(rgbImage);
+		const encoded = png.encode(image);
+		assert.deepEqual(png.decode(encoded), image, 'An encoded image should decode to the same pixels');
+	},
+
+	'.crop'() {
+		const image = png.decode(rgbImage);
+
+		assert.deepEqual(toPixels(png.crop(image, 1, 1, 2, 2)), [
+			[ 200, 100, 50, 255 ], [ 0, 255, 0, 255 ],
+			[ 6, 5, 4, 255 ], [ 3, 2, 1, 255 ]
+		]);
+
+		const clipped = png.crop(image, 2, -1, 5, 2);
+		assert.strictEqual(clipped.width, 1, 'Regions should be clipped to the image');
+		assert.strictEqual(clipped.height, 1);
+		assert.deepEqual(toPixels(clipped), [ [ 250, 5, 128, 255 ] ]);
+	}
+});
@@ -0,0 +1,152 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import Task from '@dojo/core/async/Task';
+import { sleep } from 'src/lib/util';
+import {
+	createBatchScript,
+	createProbeHelpers,
+	Probe,
+	probeRequirements,
+	ProbeRequirements,
+	runProbes
+} from 'src/lib/probes';
+import { ProbeResult } from 'src/lib/capabilityReport';
+
+registerSuite(function () {
+	let events: string[];
+	let running: number;
+	let maxRunning: number;
+
+	function createProbe(name: string, requirements: ProbeRequirements, delay = 5): Probe {
+		return {
+			name,
+			requirements,
+			run() {
+				events.push('start ' + name);
+				maxRunning = Math.max(maxRunning, ++running);
+				return sleep(delay).then(function () {
+					--running;
+					events.push('end ' + name);
+				});
+			}
+		};
+	}
+
+	return {
+		name: 'lib/leadfoot/probes',
+
+		beforeEach() {
+			events = [];
+			running = 0;
+			maxRunning = 0;
+		},
+
+		'.runProbes': {
+			'concurrency'() {
+				const probes = [ 'a', 'b', 'c', 'd' ].map(name => createProbe(name, {}));
+				return runProbes(probes, 2).then(function () {
+					assert.strictEqual(maxRunning, 2);
+					assert.lengthOf(events, 8);
+				});
+			},
+
+			'serial'() {
+				const probes = [ 'a', 'b', 'c' ].map(name => createProbe(name, {}));
+				return runProbes(probes, 1).then(function () {
+					assert.deepEqual(events, [ 'start a', 'end a', 'start b', 'end b', 'start c', 'end c' ]);
+				});
+			},
+
+			'shared requirements'() {
+				return runProbes([
+					createProbe('page1', { page: true }, 10),
+					createProbe('window', { window: true }, 10),
+					createProbe('page2', { page: true }),
+					createProbe('none', {})
+				], 4).then(function () {
+					assert.deepEqual(events.slice(0, 3), [ 'start page1', 'start window', 'start none' ],
+						'Feature tests that share no requirements should run at once');
+					assert.isAbove(events.indexOf('start page2'), events.indexOf('end page1'),
+						'Feature tests that use the page should not run at the same time');
+				});
+			},
+
+			'order of waiting probes'() {
+				return runProbes([
+					createProbe('window', { window: true }, 10),
+					createProbe('exclusive', { page: true, window: true }),
+					createProbe('page', { page: true })
+				], 4).then(function () {
+					assert.isBelow(events.indexOf('start exclusive'), events.indexOf('start page'),
+						'A waiting feature test should not be overtaken by a later one that needs the same resource');
+				});
+			},
+
+			'failure'() {
+				return runProbes([
+					createProbe('a', {}),
+					{ name: 'b', requirements: {}, run: () => Task.reject<void>(new Error('Oops')) }
+				], 2).then(function () {
+					throw new Error('Running probes should have failed');
+				}, function (error: Error) {
+					assert.strictEqual(error.message, 'Oops');
+				});
+			},
+
+			'failure waits for running probes'() {
+				return runProbes([
+					createProbe('slow', {}, 20),
+					{ name: 'b', requirements: {}, run: () => Task.reject<void>(new Error('Oops')) },
+					createProbe('c', {})
+				], 2).then(function () {
+					throw new Error('Running probes should have failed');
+				}, function (error: Error) {
+					assert.strictEqual(error.message, 'Oops');
+					assert.deepEqual(events, [ 'start slow', 'end slow' ],
+						'Rejection should wait for running probes and no new probes should be started');
+				});
+			},
+
+			'empty'() {
+				return runProbes([], 4);
+			}
+		},
+
+		'.probeRequirements'() {
+			[ 'dynamicViewport', 'brokenWindowSwitch', 'brokenParentFrameSwitch' ].forEach(function (name) {
+				assert.isTrue(probeRequirements[name].page,
+					name + ' changes the browsing context, so it should not run alongside feature tests that use the page');
+			});
+		},
+
+		'.createBatchScript'() {
+			const script = createBatchScript([
+				'return 1;',
+				function () {
+					return [ 'a' ];
+				},
+				'throw new Error("Oops");'
+			]);
+
+			assert.deepEqual(new Function(script)(), [
+				{ value: 1 },
+				{ value: [ 'a' ] },
+				{ error: 'Oops' }
+			]);
+		},
+
+		'.createProbeHelpers'() {
+			const result: ProbeResult = { value: undefined, tested: true, duration: 0 };
+			const helpers = createProbeHelpers(result);
+			const error = new Error('Not implemented');
+			error.name = 'UnknownCommand';
+
+			assert.isTrue(helpers.broken());
+			assert.isFalse(helpers.works());
+			assert.isUndefined(result.error);
+			assert.isFalse(helpers.maybeSupported(error));
+			assert.strictEqual(result.error, error);
+			assert.isTrue(helpers.maybeSupported(new Error('Something else')));
+		}
+	};
+});
@@ -0,0 +1,57 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyQuirkProfile, getQuirkProfile, registerQuirkProfile, shouldProbe } from 'src/lib/quirks';
+
+registerSuite({
+	name: 'lib/leadfoot/quirks',
+
+	'getQuirkProfile': {
+		'object'() {
+			const profile = { skip: [ 'brokenRefresh' ] };
+			assert.strictEqual(getQuirkProfile(profile), profile);
+			assert.isUndefined(getQuirkProfile(undefined));
+		},
+
+		'named'() {
+			const profile = { capabilities: { brokenRefresh: true } };
+			registerQuirkProfile('test-profile', profile);
+			assert.strictEqual(getQuirkProfile('test-profile'), profile);
+			assert.isFalse(getQuirkProfile('chrome-headless-linux').capabilities.touchEnabled);
+		},
+
+		'JSON file'() {
+			const file = path.join(os.tmpdir(), 'leadfoot-quirks-' + process.pid + '.json');
+			fs.writeFileSync(file, JSON.stringify({ capabilities: { brokenClick: true } }));
+
+			try {
+				assert.deepEqual(getQuirkProfile(file), { capabilities: { brokenClick: true } });
+			}
+			finally {
+				fs.unlinkSync(file);
+			}
+		},
+
+		'unknown'() {
+			assert.throws(function () {
+				getQuirkProfile('no-such-profile');
+			}, /Unknown quirk profile "no-such-profile"/);
+		}
+	},
+
+	'shouldProbe'() {
+		const profile = { capabilities: { brokenClick: false }, skip: [ 'brokenRefresh' ] };
+		assert.isTrue(shouldProbe(undefined, 'brokenClick'));
+		assert.isFalse(shouldProbe(profile, 'brokenClick'), 'Forced capabilities should not be probed');
+		assert.isFalse(shouldProbe(profile, 'brokenRefresh'), 'Skipped capabilities should not be probed');
+		assert.isTrue(shouldProbe(profile, 'brokenWindowSize'));
+	},
+
+	'applyQuirkProfile'() {
+		const capabilities = { browserName: 'chrome', brokenClick: true };
+		applyQuirkProfile(capabilities, { capabilities: { brokenClick: false, rotatable: false } });
+		assert.deepEqual(capabilities, { browserName: 'chrome', brokenClick: false, rotatable: false });
+	}
+});
@@ -0,0 +1,59 @@
+import registerSuite = require('intern!object');
+import * as assert from 'intern/chai!assert';
+import { defaultRetryPolicy, getRetryDelay, isSessionQueueFullError, isTransientError } from 'src/lib/retry';
+
+registerSuite({
+	name: 'lib/leadfoot/retry',
+
+	'.isTransientError'() {
+		function createError(properties: any) {
+			const error: any = new Error(properties.message || 'Oops');
+			return Object.keys(properties).reduce(function (error, key) {
+				error[key] = properties[key];
+				return error;
+			}, error);
+		}
+
+		assert.isTrue(isTransientError(createError({ code: 'ECONNRESET' })));
+		assert.isTrue(isTransientError(createError({ response: { status: 503 } })));
+		assert.isTrue(isTransientError(createError({ message: 'Error forwarding the new session: session queue is full' })));
+		assert.isFalse(isTransientError(createError({ response: { status: 500 } })));
+		assert.isFalse(isTransientError(createError({ code: 'ENOENT' })));
+		assert.isFalse(isTransientError(null));
+	},
+
+	'.isSessionQueueFullError'() {
+		assert.isTrue(isSessionQueueFullError(new Error('Error forwarding the new session: Session queue full')));
+		assert.isFalse(isSessionQueueFullError(new Error('Bad gateway')));
+		assert.isFalse(isSessionQueueFullError(null));
+	},
+
+	'.getRetryDelay'() {
+		const policy = { ...defaultRetryPolicy, delay: 100, maxDelay: 300, jitter: 0 };
+		assert.strictEqual(getRetryDelay(policy, 1), 100);
+		assert.strictEqual(getRetryDelay(policy, 2), 200);
+		assert.strictEqual(getRetryDelay(policy, 3), 300, 'Delay should be capped at maxDelay');
+
+		policy.jitter = 0.5;
+		for (let i = 0; i < 20; ++i) {
+			const delay = getRetryDelay(policy, 1);
+			assert.isAtLeast(delay, 50);
+			assert.isAtMost(delay, 100);
+		}
+	},
+
+	'default retryable'() {
+		const error: any = new Error('Bad gateway');
+		error.response = { status: 502 };
+
+		assert.isTrue(defaultRetryPolicy.retryable(error, { method: 'GET', url: '', headers: {}, data: null }, 1));
+		assert.isFalse(defaultRetryPolicy.retryable(error, { method: 'POST', url: '', headers: {}, data: null }, 1));
+		assert.isTrue(defaultRetryPolicy.retryable(error, {
+			method: 'POST',
+			url: '',
+			headers: {},
+			data: null,
+			safe: true
+		}, 1));
+	}
+});